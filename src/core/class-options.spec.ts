@@ -0,0 +1,86 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import { AutoMap, Mappable } from '../decorators';
+
+class UserRow {
+    first_name = 'ann';
+    last_name: string | null = null;
+    password_hash = 'secret';
+}
+
+@Mappable({
+    autoMapAll: true,
+    namingConvention: { from: 'snake_case', to: 'camelCase' },
+    skipNulls: true
+})
+class UserDto {
+    @AutoMap()
+    firstName?: string;
+
+    lastName = 'unknown';
+}
+
+class PlainUserDto {
+    @AutoMap()
+    firstName?: string;
+}
+
+describe('@Mappable class options', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper();
+    });
+
+    it('apply to maps onto the class', () => {
+        mapper.createMap(UserRow, UserDto);
+
+        expect(mapper.map(new UserRow(), UserDto)).toEqual(
+            Object.assign(new UserDto(), { firstName: 'ann', lastName: 'unknown' })
+        );
+    });
+
+    it('copy with autoMapAll only onto members the destination declares', () => {
+        mapper.createMap(UserRow, UserDto);
+
+        const dto = mapper.map(new UserRow(), UserDto);
+        expect(dto).not.toHaveProperty('passwordHash');
+        expect(dto).not.toHaveProperty('password_hash');
+    });
+
+    it('sit between global options and the options of the map', () => {
+        mapper = new Mapper({ globalOptions: { skipNulls: false, strict: true } });
+        mapper.createMap(UserRow, UserDto, undefined, { skipNulls: false });
+
+        expect(mapper.getMapping(UserRow, UserDto)?.options).toMatchObject({
+            strict: true,
+            skipNulls: false,
+            autoMapAll: true
+        });
+        expect(mapper.map(new UserRow(), UserDto).lastName).toBeNull();
+    });
+
+    it('apply skipUndefined to maps registered with MappingBuilder', () => {
+        @Mappable({ skipUndefined: true })
+        class ContactDto {
+            @AutoMap()
+            email = 'none';
+        }
+
+        new MappingBuilder(mapper, UserRow, ContactDto)
+            .forMember('email', () => undefined)
+            .register();
+
+        expect(mapper.getMapping(UserRow, ContactDto)?.options).toEqual({ skipUndefined: true });
+        expect(mapper.map(new UserRow(), ContactDto).email).toBe('none');
+    });
+
+    it('leave maps onto classes without them unchanged', () => {
+        mapper.createMap(UserRow, PlainUserDto, undefined, {
+            convertNaming: { from: 'snake_case', to: 'camelCase' }
+        });
+
+        expect(mapper.map(new UserRow(), PlainUserDto)).toEqual(new PlainUserDto());
+    });
+});
@@ -0,0 +1,82 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingConfigurationError } from './errors';
+import { Ignore, MapProperty } from '../decorators';
+
+class Address {
+    city = '';
+}
+
+class User {
+    name = '';
+    email = '';
+    address = new Address();
+}
+
+class UserDto {
+    name = '';
+    email = '';
+    phone = '';
+
+    @MapProperty('address.city')
+    town = '';
+
+    @Ignore()
+    internal = '';
+}
+
+function catchError(run: () => void): MappingConfigurationError {
+    try {
+        run();
+    } catch (error) {
+        return error as MappingConfigurationError;
+    }
+    throw new Error('Expected a configuration error');
+}
+
+describe('configuration validation', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper();
+    });
+
+    it('report destination members no source member or configuration maps', () => {
+        mapper.createMap(User, UserDto);
+
+        const error = catchError(() => mapper.assertConfigurationIsValid());
+        expect(error).toBeInstanceOf(MappingConfigurationError);
+        expect(error.errors).toEqual(['User → UserDto: "phone" is not mapped']);
+        expect(error.message).toBe(
+            'Mapping Error: Invalid mapping configuration\n  - User → UserDto: "phone" is not mapped'
+        );
+    });
+
+    it('report configured members the destination does not declare', () => {
+        mapper.createMap(User, UserDto, { phone: () => '', phnoe: () => '' } as any);
+
+        expect(catchError(() => mapper.assertConfigurationIsValid()).errors).toEqual([
+            'User → UserDto: "phnoe" is configured but not declared by the destination'
+        ]);
+    });
+
+    it('accept maps covering every member', () => {
+        mapper.createMap(User, UserDto, { phone: () => '' });
+        mapper.createMap(Address, Address);
+        mapper.createMap(User, User, undefined, { ignore: ['address'] });
+
+        expect(() => mapper.assertConfigurationIsValid()).not.toThrow();
+    });
+
+    it('list the problems of every map at once', () => {
+        mapper.createMap(User, UserDto);
+        mapper.createMap(Address, UserDto, { town: source => source.city });
+
+        expect(catchError(() => mapper.assertConfigurationIsValid()).errors).toEqual([
+            'User → UserDto: "phone" is not mapped',
+            'Address → UserDto: "name" is not mapped',
+            'Address → UserDto: "email" is not mapped',
+            'Address → UserDto: "phone" is not mapped'
+        ]);
+    });
+});
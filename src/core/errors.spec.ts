@@ -0,0 +1,128 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingError, MappingNotFoundError, MemberResolutionError } from './errors';
+import { MapNested, Transform } from '../decorators';
+
+class LineItem {
+    price = 0;
+}
+
+class LineItemDto {
+    price = 0;
+}
+
+class Order {
+    lineItems: LineItem[] = [];
+}
+
+class OrderDto {
+    @MapNested(() => LineItemDto)
+    lineItems: LineItemDto[] = [];
+}
+
+class Customer {
+    orders: Order[] = [];
+}
+
+class CustomerDto {
+    @MapNested(() => OrderDto)
+    orders: OrderDto[] = [];
+}
+
+class Tag {
+    label = '';
+}
+
+class TagDto {
+    @Transform((label: string) => label.trim())
+    label = '';
+}
+
+const priceError = new Error('no price');
+
+function createCustomer(prices: number[][]): Customer {
+    return Object.assign(new Customer(), {
+        orders: prices.map(items =>
+            Object.assign(new Order(), {
+                lineItems: items.map(price => Object.assign(new LineItem(), { price }))
+            })
+        )
+    });
+}
+
+function createMapper(strict: boolean): Mapper {
+    const mapper = new Mapper({ globalOptions: { strict } });
+    mapper.createMap(LineItem, LineItemDto, {
+        price: item => {
+            if (item.price < 0) throw priceError;
+            return item.price;
+        }
+    });
+    mapper.createMap(Order, OrderDto);
+    mapper.createMap(Customer, CustomerDto);
+    mapper.createMap(Tag, TagDto);
+    return mapper;
+}
+
+function catchError(run: () => unknown): MappingError {
+    try {
+        run();
+    } catch (error) {
+        return error as MappingError;
+    }
+    throw new Error('Expected a mapping error');
+}
+
+describe('mapping errors', () => {
+    it('report the destination path of a failing member in nested arrays', () => {
+        const mapper = createMapper(true);
+        const error = catchError(() =>
+            mapper.map(createCustomer([[1], [2, 3], [4, -1]]), CustomerDto)
+        );
+
+        expect(error).toBeInstanceOf(MemberResolutionError);
+        expect(error.path).toBe('orders[2].lineItems[1].price');
+        expect(error.sourceType).toBe('LineItem');
+        expect(error.destinationType).toBe('LineItemDto');
+        expect(error.cause).toBe(priceError);
+        expect(error.message).toBe(
+            'Mapping Error [LineItem → LineItemDto] at orders[2].lineItems[1].price: ' +
+                'Member resolution failed | Cause: no price'
+        );
+    });
+
+    it('prefix the index of the failing item of top-level arrays', async () => {
+        const mapper = createMapper(true);
+        const items = [1, -1].map(price => Object.assign(new LineItem(), { price }));
+
+        expect(catchError(() => mapper.mapArray(items, LineItemDto)).path).toBe('[1].price');
+        await expect(mapper.mapArrayAsync(items, LineItemDto)).rejects.toMatchObject({
+            path: '[1].price'
+        });
+    });
+
+    it('skip failing member functions unless strict', () => {
+        const mapper = createMapper(false);
+        const customer = mapper.map(createCustomer([[-1], [2]]), CustomerDto);
+        expect(customer.orders[1].lineItems[0].price).toBe(2);
+    });
+
+    it('always surface failing transformers', () => {
+        const mapper = createMapper(false);
+        const error = catchError(() =>
+            mapper.map(Object.assign(new Tag(), { label: null }), TagDto)
+        );
+
+        expect(error).toBeInstanceOf(MemberResolutionError);
+        expect(error.path).toBe('label');
+        expect(error.cause).toBeInstanceOf(TypeError);
+    });
+
+    it('name both types when no map is registered', () => {
+        const error = catchError(() => createMapper(false).map(new Tag(), LineItemDto));
+
+        expect(error).toBeInstanceOf(MappingNotFoundError);
+        expect(error).toBeInstanceOf(MappingError);
+        expect(error.message).toBe('Mapping Error [Tag → LineItemDto]: Mapping not found');
+    });
+});
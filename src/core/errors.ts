@@ -0,0 +1,109 @@
+/**
+ * Details attached to every mapping error.
+ */
+export interface MappingErrorDetails {
+    sourceType?: string;
+    destinationType?: string;
+    /** Destination path of the failing member, e.g. `orders[3].lineItems[0].price` */
+    path?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class of every error raised by the mapper.
+ */
+export class MappingError extends Error {
+    readonly reason: string;
+    readonly sourceType?: string;
+    readonly destinationType?: string;
+    readonly cause?: unknown;
+    path?: string;
+
+    constructor(reason: string, details: MappingErrorDetails = {}) {
+        super(reason);
+        this.name = new.target.name;
+        this.reason = reason;
+        this.sourceType = details.sourceType;
+        this.destinationType = details.destinationType;
+        this.path = details.path;
+        this.cause = details.cause;
+        this.message = this.formatMessage();
+    }
+
+    /** Kept for callers that read the cause through the former ad-hoc field. */
+    get originalError(): Error | undefined {
+        return this.cause instanceof Error ? this.cause : undefined;
+    }
+
+    /**
+     * Prefixes the destination path with the member (or array index) of the
+     * enclosing mapping. Called while the error bubbles up through nested maps.
+     */
+    prependPath(segment: string | number): this {
+        const head = typeof segment === 'number' ? `[${segment}]` : segment;
+        if (!this.path) this.path = head;
+        else if (this.path.startsWith('[')) this.path = `${head}${this.path}`;
+        else this.path = `${head}.${this.path}`;
+
+        this.message = this.formatMessage();
+        return this;
+    }
+
+    protected formatMessage(): string {
+        const types =
+            this.sourceType || this.destinationType
+                ? ` [${this.sourceType ?? '?'} → ${this.destinationType ?? '?'}]`
+                : '';
+        const at = this.path ? ` at ${this.path}` : '';
+        const cause =
+            this.cause instanceof Error
+                ? ` | Cause: ${this.cause.message}`
+                : this.cause !== undefined
+                  ? ` | Cause: ${String(this.cause)}`
+                  : '';
+        return `Mapping Error${types}${at}: ${this.reason}${cause}`;
+    }
+}
+
+/**
+ * No mapping is registered for the requested source/destination pair.
+ */
+export class MappingNotFoundError extends MappingError {
+    constructor(sourceType: string, destinationType: string, details: MappingErrorDetails = {}) {
+        super('Mapping not found', { ...details, sourceType, destinationType });
+    }
+}
+
+/**
+ * Resolving a single destination member threw.
+ */
+export class MemberResolutionError extends MappingError {
+    constructor(details: MappingErrorDetails) {
+        super('Member resolution failed', details);
+    }
+}
+
+/**
+ * A validation rule rejected a value.
+ */
+export class MappingValidationError extends MappingError {
+    readonly property?: string;
+
+    constructor(message: string, details: MappingErrorDetails & { property?: string } = {}) {
+        super(message, { ...details, path: details.path ?? details.property });
+        this.property = details.property;
+    }
+}
+
+/**
+ * A mapping configuration is invalid (duplicate registration, unmapped members, ...).
+ */
+export class MappingConfigurationError extends MappingError {
+    /** Every individual problem when several are reported at once */
+    readonly errors: string[];
+
+    constructor(reason: string, details: MappingErrorDetails & { errors?: string[] } = {}) {
+        super(reason, details);
+        this.errors = details.errors ?? [reason];
+    }
+}
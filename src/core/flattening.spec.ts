@@ -0,0 +1,106 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingConfigurationError } from './errors';
+import { getFlatteningPaths } from './flattening';
+import { MapProperty } from '../decorators';
+
+class Email {
+    address = '';
+}
+
+class Customer {
+    name = '';
+    emailAddress = '';
+}
+
+class Order {
+    customer = new Customer();
+}
+
+class OrderDto {
+    customerName = '';
+    customerEmailAddress = '';
+}
+
+class OrderRow {
+    customer_name = '';
+}
+
+class Contact {
+    customer = new Customer();
+    customerEmail = new Email();
+}
+
+class ContactDto {
+    customerEmailAddress = '';
+}
+
+class ExplicitContactDto {
+    @MapProperty('customerEmail.address')
+    customerEmailAddress = '';
+}
+
+function createOrder(name: string, emailAddress: string): Order {
+    const order = new Order();
+    Object.assign(order.customer, { name, emailAddress });
+    return order;
+}
+
+describe('flattening', () => {
+    it('split names into source paths, fewest segments first', () => {
+        expect(getFlatteningPaths('customerEmailAddress', {})).toEqual([
+            ['customer', 'emailAddress'],
+            ['customerEmail', 'address'],
+            ['customer', 'email', 'address']
+        ]);
+        expect(getFlatteningPaths('name', {})).toEqual([]);
+        expect(
+            getFlatteningPaths('customer_name', {
+                convertNaming: { from: 'camelCase', to: 'snake_case' }
+            })
+        ).toEqual([['customer', 'name']]);
+    });
+
+    it('map flat members from nested source members', () => {
+        const mapper = new Mapper();
+        mapper.createMap(Order, OrderDto);
+        mapper.createMap(Order, OrderRow, undefined, {
+            convertNaming: { from: 'camelCase', to: 'snake_case' }
+        });
+
+        const order = createOrder('ann', 'ann@example.com');
+        expect(mapper.map(order, OrderDto)).toEqual({
+            customerName: 'ann',
+            customerEmailAddress: 'ann@example.com'
+        });
+        expect(mapper.map(order, OrderRow).customer_name).toBe('ann');
+        mapper.assertConfigurationIsValid();
+    });
+
+    it('leave members untouched when an intermediate member is null', () => {
+        const mapper = new Mapper();
+        mapper.createMap(Order, OrderDto);
+
+        const order = Object.assign(new Order(), { customer: null });
+        expect(mapper.map(order, OrderDto)).toEqual(new OrderDto());
+    });
+
+    it('report names matching several source paths as ambiguous', () => {
+        const mapper = new Mapper();
+        mapper.createMap(Contact, ContactDto);
+        mapper.createMap(Contact, ExplicitContactDto);
+
+        expect(() => mapper.assertConfigurationIsValid()).toThrow(
+            new MappingConfigurationError(
+                'Invalid mapping configuration\n  - Contact → ContactDto: "customerEmailAddress" ' +
+                    'is ambiguous between customer.emailAddress, customerEmail.address'
+            )
+        );
+
+        const contact = new Contact();
+        contact.customerEmail.address = 'explicit@example.com';
+        expect(mapper.map(contact, ExplicitContactDto).customerEmailAddress).toBe(
+            'explicit@example.com'
+        );
+    });
+});
@@ -0,0 +1,145 @@
+import type { ClassType, MappingEntryOptions } from './types';
+import { convertNamingConvention } from '../utils/naming-convention.util';
+import { AUTO_MAP_METADATA_KEY, MAP_NESTED_METADATA_KEY } from '../decorators';
+
+/** Names with more words are not flattened; their split count grows exponentially. */
+const MAX_FLATTENED_WORDS = 6;
+
+const VALUE_TYPES = new Set<unknown>([
+    String,
+    Number,
+    Boolean,
+    BigInt,
+    Symbol,
+    Date,
+    Object,
+    Array
+]);
+
+/**
+ * Source paths a flat destination member may be read from, most specific first:
+ * `addressCity` -> [['address', 'city']], `customerEmailAddress` -> [['customer', 'emailAddress'],
+ * ['customerEmail', 'address'], ['customer', 'email', 'address']]. Destination names are split
+ * in the `convertNaming.to` convention and source members joined in the `from` one.
+ */
+export function getFlatteningPaths(key: string, options: MappingEntryOptions): string[][] {
+    const { from = 'camelCase', to = 'camelCase' } = options.convertNaming ?? {};
+    const words = convertNamingConvention(key, to, 'snake_case').split('_').filter(Boolean);
+    if (words.length < 2 || words.length > MAX_FLATTENED_WORDS) return [];
+
+    const paths: string[][] = [];
+    const split = (start: number, path: string[]) => {
+        for (let end = start + 1; end <= words.length; end++) {
+            const member = convertNamingConvention(
+                words.slice(start, end).join('_'),
+                'snake_case',
+                from
+            );
+            if (end === words.length) {
+                if (path.length) paths.push([...path, member]);
+            } else {
+                split(end, [...path, member]);
+            }
+        }
+    };
+    split(0, []);
+
+    return paths.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Reads the first of `paths` present on the source. Intermediate members must be objects;
+ * a null or missing one does not match.
+ */
+export function readFlattened(
+    source: any,
+    paths: readonly (readonly string[])[]
+): { found: boolean; value?: unknown } {
+    for (const path of paths) {
+        let value = source;
+        let found = true;
+        for (const part of path) {
+            if (value === null || typeof value !== 'object' || !(part in value)) {
+                found = false;
+                break;
+            }
+            value = value[part];
+        }
+        if (found) return { found, value };
+    }
+    return { found: false };
+}
+
+/**
+ * Members known at runtime: decorated properties plus those initialized by the constructor.
+ */
+export function getDeclaredMembers(type: ClassType): string[] {
+    return [...describeMembers(type).keys()];
+}
+
+/**
+ * Declared members of a class with the class of each object member, when known from
+ * `@MapNested`/`@AutoMap(Type)`, `design:type` or the constructor-initialized value.
+ */
+export function describeMembers(type: ClassType): Map<string, ClassType | undefined> {
+    const members = new Map<string, ClassType | undefined>();
+    for (const key of Object.keys(Reflect.getMetadata(AUTO_MAP_METADATA_KEY, type) || {})) {
+        members.set(key, getMemberClass(type, key));
+    }
+
+    try {
+        const instance = new type();
+        for (const key of Object.keys(instance)) {
+            const value = instance[key];
+            const valueType =
+                value !== null && typeof value === 'object' ? value.constructor : undefined;
+            members.set(
+                key,
+                members.get(key) ?? (VALUE_TYPES.has(valueType) ? undefined : valueType)
+            );
+        }
+    } catch {
+        // Constructors that require arguments only expose their decorated members
+    }
+    return members;
+}
+
+function getMemberClass(type: ClassType, key: string): ClassType | undefined {
+    const nested = Reflect.getMetadata(MAP_NESTED_METADATA_KEY, type.prototype, key);
+    if (nested) return nested();
+    const designType = Reflect.getMetadata('design:type', type.prototype, key);
+    return typeof designType === 'function' && !VALUE_TYPES.has(designType)
+        ? designType
+        : undefined;
+}
+
+/**
+ * The paths that exist in the member graph of a source class.
+ */
+export function findSourcePaths(
+    sourceType: ClassType,
+    paths: readonly (readonly string[])[]
+): string[][] {
+    const described = new Map<ClassType, Map<string, ClassType | undefined>>();
+    const membersOf = (type: ClassType) => {
+        let members = described.get(type);
+        if (!members) {
+            members = describeMembers(type);
+            described.set(type, members);
+        }
+        return members;
+    };
+
+    return paths
+        .filter(path => {
+            let type: ClassType | undefined = sourceType;
+            for (const [index, part] of path.entries()) {
+                const members = membersOf(type!);
+                if (!members.has(part)) return false;
+                type = members.get(part);
+                if (!type && index < path.length - 1) return false;
+            }
+            return true;
+        })
+        .map(path => [...path]);
+}
@@ -2,4 +2,7 @@ export * from './mapper';
 export * from './mapping-profile';
 export * from './mapping-config';
 export * from './mapping-context';
+export * from './mapping-cache';
+export * from './value-resolver';
+export * from './errors';
 export * from './types';
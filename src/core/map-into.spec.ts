@@ -0,0 +1,123 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MapNested } from '../decorators';
+
+class Phone {
+    id = 0;
+    number = '';
+}
+
+class PhonePatch {
+    id = 0;
+    number = '';
+}
+
+class Address {
+    city = '';
+    street = '';
+}
+
+class AddressPatch {
+    city?: string = undefined;
+}
+
+class UserPatch {
+    name: string | null = null;
+    email?: string = undefined;
+
+    @MapNested(() => Address)
+    address?: AddressPatch;
+
+    @MapNested(() => Phone)
+    phones: PhonePatch[] = [];
+}
+
+class User {
+    name = '';
+    email = '';
+
+    @MapNested(() => Address)
+    address = new Address();
+
+    @MapNested(() => Phone)
+    phones: Phone[] = [];
+}
+
+function createPhone(id: number, number: string): Phone {
+    return Object.assign(new Phone(), { id, number });
+}
+
+function createPhonePatch(id: number, number: string): PhonePatch {
+    return Object.assign(new PhonePatch(), { id, number });
+}
+
+function createUser(): User {
+    return Object.assign(new User(), {
+        name: 'ann',
+        email: 'ann@example.com',
+        address: Object.assign(new Address(), { city: 'Oslo', street: 'Main' }),
+        phones: [createPhone(1, '111'), createPhone(2, '222')]
+    });
+}
+
+function createPatch(phones: PhonePatch[]): UserPatch {
+    return Object.assign(new UserPatch(), {
+        address: Object.assign(new AddressPatch(), { city: 'Bergen' }),
+        phones
+    });
+}
+
+describe('mapInto', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper({ globalOptions: { skipNulls: true, skipUndefined: true } });
+        mapper.createMap(AddressPatch, Address);
+        mapper.createMap(PhonePatch, Phone);
+        mapper.createMap(UserPatch, User);
+    });
+
+    it('keep the current values of members the patch skips and merge nested objects', () => {
+        const user = createUser();
+        const { address } = user;
+        const result = mapper.mapInto(createPatch([]), user);
+
+        expect(result).toBe(user);
+        expect(user.name).toBe('ann');
+        expect(user.email).toBe('ann@example.com');
+        expect(user.address).toBe(address);
+        expect(user.address).toEqual({ city: 'Bergen', street: 'Main' });
+    });
+
+    it('replace arrays by default', () => {
+        const user = createUser();
+        mapper.mapInto(createPatch([createPhonePatch(3, '333')]), user);
+
+        expect(user.phones).toEqual([createPhone(3, '333')]);
+    });
+
+    it('append array items', () => {
+        const user = createUser();
+        mapper.mapInto(createPatch([createPhonePatch(3, '333')]), user, { arrays: 'append' });
+
+        expect(user.phones.map(phone => phone.id)).toEqual([1, 2, 3]);
+    });
+
+    it('update matching items in place and append the rest with mergeBy', async () => {
+        const user = createUser();
+        const [first, second] = user.phones;
+        await mapper.mapIntoAsync(
+            createPatch([createPhonePatch(2, '999'), createPhonePatch(3, '333')]),
+            user,
+            { arrays: { mergeBy: 'id' } }
+        );
+
+        expect(user.phones).toEqual([
+            createPhone(1, '111'),
+            createPhone(2, '999'),
+            createPhone(3, '333')
+        ]);
+        expect(user.phones[0]).toBe(first);
+        expect(user.phones[1]).toBe(second);
+    });
+});
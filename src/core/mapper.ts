@@ -6,38 +6,83 @@ import type {
     MappingResult,
     ConditionalMapping,
     TransformOptions,
+    MapOptions,
+    MapIntoOptions,
+    MappingSource,
+    ConvertibleType,
+    TypeConverter,
+    ValueResolver,
+    ResolverFactory,
     ValidationRule,
     MapperConstructorOptions,
     CacheConfig,
+    CacheStats,
+    MappingCacheAdapter,
     MappingContext
 } from './types';
 
+import {
+    MappingConfigurationError,
+    MappingError,
+    MappingNotFoundError,
+    MappingValidationError,
+    MemberResolutionError
+} from './errors';
+import { createMappingContext } from './mapping-context';
+import { findSourcePaths, getDeclaredMembers, readFlattened } from './flattening';
+import { LruCacheAdapter } from './mapping-cache';
+import { createMemberWriters, getPathType, getReversal, withReversal } from './reverse-mapping';
+import type { MemberReversal, ReversedMember } from './reverse-mapping';
+import { ResolverReference } from './value-resolver';
+import {
+    buildMappingPlan,
+    convertMemberValue,
+    isMemberExcluded,
+    readPath,
+    resolveCopyTarget
+} from './mapping-plan';
+import type { MappingPlan, MemberStep, TypeConverterRegistry } from './mapping-plan';
+import type { MappingProfile } from './mapping-profile';
 import { deepClone } from '../utils/deep-clone.util';
 import { convertNamingConvention } from '../utils/naming-convention.util';
-import {
-    AUTO_MAP_METADATA_KEY,
-    MAP_NESTED_METADATA_KEY,
-    MAP_PROPERTY_METADATA_KEY,
-    TRANSFORM_METADATA_KEY
-} from '../decorators';
+import { getTypeName, isObject, isThenable } from '../utils/type-check.util';
+import { AUTO_MAP_METADATA_KEY, MAPPABLE_CLASS_METADATA_KEY } from '../decorators';
+import type { MappableClassOptions } from '../decorators';
 
 export class Mapper {
-    private registry: MappingRegistryEntry<any, any>[] = [];
+    // Registry keyed by constructor identity: source -> destination -> entry
+    private registry: Map<MappingSource, Map<ClassType, MappingRegistryEntry<any, any>>> =
+        new Map();
     private globalOptions: MappingEntryOptions = {};
-    private validationRules: Map<string, ValidationRule[]> = new Map();
-    private reverseRegistry: Map<string, MappingRegistryEntry<any, any>> = new Map();
-
-    // Compiled mappings for performance: registryKey -> compiled sync mapper function
-    private compiledMapFns: Map<string, (src: any, _ctx?: any) => any> = new Map();
-
-    // Compiled async mapping functions
-    private compiledAsyncMapFns: Map<string, (src: any, _ctx?: any) => Promise<any>> = new Map();
-
-    // Instance-level cache: WeakMap<sourceObject, Map<destinationConstructor, mappedResult>>
-    private instanceCache: WeakMap<object, Map<new (...args: any[]) => any, any>> = new WeakMap();
+    private validationRules: Map<ClassType, Map<string, ValidationRule[]>> = new Map();
+
+    // Mapping plans: entry -> per-call options key -> plan, built on first use
+    private plans: WeakMap<MappingRegistryEntry<any, any>, Map<string, MappingPlan>> =
+        new WeakMap();
+    private typeConverters: TypeConverterRegistry = new Map();
+    private resolverFactory: ResolverFactory = type => new type();
+    private resolvers = new Map<ClassType<ValueResolver>, ValueResolver>();
+    // Options each map was created with, before global and @Mappable options were merged in
+    private mapOptions: WeakMap<MappingRegistryEntry<any, any>, MappingEntryOptions> =
+        new WeakMap();
+    // Profile classes already configured against this mapper
+    private profiles = new Set<ClassType<MappingProfile>>();
+
+    // Instance-level cache: WeakMap<entry, WeakMap<sourceObject, Map<optionsKey, cachedResult>>>
+    private instanceCache: WeakMap<
+        MappingRegistryEntry<any, any>,
+        WeakMap<object, Map<string, { value: unknown; expiresAt?: number }>>
+    > = new WeakMap();
 
     // Configurable caching plumbing
     private cacheConfig: CacheConfig;
+    // Built-in store for keyed entries (maps with a `cache.key` function), created on first use
+    private cacheStore?: LruCacheAdapter;
+    private cacheStats: CacheStats = { hits: 0, misses: 0 };
+    private entryCacheStats: WeakMap<MappingRegistryEntry<any, any>, CacheStats> = new WeakMap();
+    // Default namespace ids, so same-named classes never share keyed entries
+    private entryIds: WeakMap<MappingRegistryEntry<any, any>, number> = new WeakMap();
+    private nextEntryId = 0;
 
     constructor(
         options?: MapperConstructorOptions | (MappingEntryOptions & { cache?: CacheConfig })
@@ -48,10 +93,62 @@ export class Mapper {
         } else {
             // Support both shapes: MapperConstructorOptions or MappingEntryOptions with cache
             const anyOpt = options as any;
-            this.globalOptions = anyOpt.globalOptions ?? (anyOpt as MappingEntryOptions) ?? {};
+            if (anyOpt.globalOptions) {
+                this.globalOptions = anyOpt.globalOptions;
+            } else {
+                // Mapper settings of the flat shape are not map options
+                this.globalOptions = { ...anyOpt };
+                delete this.globalOptions.cache;
+                delete (this.globalOptions as any).resolverFactory;
+            }
             this.cacheConfig = anyOpt.cache ??
                 (anyOpt as any).cache ?? { enabled: false, strategy: 'memory' };
+            if (anyOpt.resolverFactory) this.resolverFactory = anyOpt.resolverFactory;
+        }
+        this.assertCacheAdapter(this.cacheConfig);
+    }
+
+    /** Hit/miss counters of one map, or of every map when no pair is given. */
+    public getCacheStats<S extends object, D extends object>(
+        source?: MappingSource<S>,
+        destination?: ClassType<D>
+    ): CacheStats {
+        if (source === undefined || !destination) return { ...this.cacheStats };
+        const entry = this.getMapping(source, destination);
+        return { ...((entry && this.entryCacheStats.get(entry)) ?? { hits: 0, misses: 0 }) };
+    }
+
+    /**
+     * Drops cached results of one map, of every map from `source`, or of all maps.
+     * Resolves once external stores have been invalidated.
+     */
+    public async invalidateCache<S extends object, D extends object>(
+        source?: MappingSource<S>,
+        destination?: ClassType<D>
+    ): Promise<void> {
+        if (source === undefined) {
+            this.instanceCache = new WeakMap();
+            const adapters = new Set<MappingCacheAdapter>(this.cacheStore ? [this.cacheStore] : []);
+            for (const entry of this.getEntries()) {
+                const adapter = this.getCacheConfig(entry).adapter;
+                if (adapter) adapters.add(adapter);
+            }
+            await Promise.all([...adapters].map(adapter => adapter.clear()));
+            return;
         }
+
+        const entries = this.getEntries().filter(
+            entry => entry.source === source && (!destination || entry.destination === destination)
+        );
+        await Promise.all(
+            entries.map(entry => {
+                this.instanceCache.delete(entry);
+                const config = this.getCacheConfig(entry);
+                return config.adapter || this.cacheStore
+                    ? this.getCacheAdapter(config).deletePrefix(`${this.getCacheNamespace(entry)}:`)
+                    : undefined;
+            })
+        );
     }
 
     /** Dynamically enable or disable the global cache. */
@@ -65,6 +162,18 @@ export class Mapper {
         return !!this.cacheConfig?.enabled;
     }
 
+    /**
+     * Whether a call may read and store cached results. Results depend on `extraArgs` and on
+     * the enclosing map, which the cache key does not capture, so such calls always map.
+     */
+    private isCacheable(
+        entry: MappingRegistryEntry<any, any>,
+        context: MappingContext,
+        target?: object
+    ): boolean {
+        return !target && !context.parent && !context.extraArgs && this.isCacheEnabled(entry);
+    }
+
     /**
      * Determines if cache is active for a given mapping entry.
      * Gives priority to per-map config over global.
@@ -83,64 +192,247 @@ export class Mapper {
      * Enables automatic reverse mapping generation.
      */
     mapFrom<S, K extends keyof S>(sourcePath: K): (src: S) => S[K] {
-        const fn = ((src: S) => src[sourcePath]) as (src: S) => S[K] & { __sourcePath?: keyof S };
-        (fn as any).__sourcePath = sourcePath;
-        return fn;
+        return withReversal((src: S) => src[sourcePath], { sourcePath: String(sourcePath) });
     }
 
-    createMap<S extends object, D extends object>(
-        source: ClassType<S>,
+    /**
+     * Registers a map. The source is a class, or a string/symbol token for plain-object
+     * shapes: `createMap<RawRow>('user-row', UserDto)`, then
+     * `map(row, UserDto, { sourceType: 'user-row' })`.
+     */
+    createMap<S extends object, D extends object = any>(
+        source: MappingSource<S>,
         destination: ClassType<D>,
         config?: MappingConfig<S, D>,
         options?: MappingEntryOptions<S, D>
     ): this {
+        if (this.getMapping(source, destination)) {
+            throw new MappingConfigurationError('Mapping already registered', {
+                sourceType: getTypeName(source),
+                destinationType: destination.name
+            });
+        }
+
         const entry: MappingRegistryEntry<S, D> = {
             source,
             destination,
             config,
-            options: this.mergeOptions(this.globalOptions, options)
+            options: this.mergeOptions(
+                this.mergeOptions(this.globalOptions, this.getClassOptions(destination)),
+                options
+            )
         };
 
-        this.registry.push(entry);
-        const key = this.getRegistryKey(source, destination);
-        this.reverseRegistry.set(key, entry);
+        let byDestination = this.registry.get(source);
+        if (!byDestination) {
+            byDestination = new Map();
+            this.registry.set(source, byDestination);
+        }
+        byDestination.set(destination, entry);
+        if (options) this.mapOptions.set(entry, options);
 
-        // Compile function eagerly for better runtime perf
-        this.compileMapFunction(entry);
+        return this;
+    }
 
+    /**
+     * Converts every source value of type `from` mapped onto a destination member whose
+     * `design:type` is `to`, e.g. `addTypeConverter(Date, String, d => d.toISOString())`.
+     * Member functions and `@Transform` take precedence; so do the map's own `typeConverters`.
+     */
+    addTypeConverter<S, D>(
+        from: ConvertibleType<S>,
+        to: ConvertibleType<D>,
+        convert: TypeConverter<S, D>
+    ): this {
+        let byFrom = this.typeConverters.get(to);
+        if (!byFrom) {
+            byFrom = new Map();
+            this.typeConverters.set(to, byFrom);
+        }
+        byFrom.set(from, convert);
+
+        // Plans captured the previous converters
+        this.plans = new WeakMap();
         return this;
     }
 
+    /** Sets how `ValueResolver` classes are instantiated; AutomapperModule uses the Nest container. */
+    setResolverFactory(factory: ResolverFactory): this {
+        this.resolverFactory = factory;
+        this.resolvers.clear();
+        return this;
+    }
+
+    /**
+     * Configures a profile against this mapper once per profile class.
+     * Returns false when a profile of the same class was already added.
+     */
+    addProfile(profile: MappingProfile): boolean {
+        const type = profile.constructor as ClassType<MappingProfile>;
+        if (this.profiles.has(type)) return false;
+        this.profiles.add(type);
+        profile.registerWith(this);
+        return true;
+    }
+
+    /**
+     * Registers the `destination → source` map inverting the `source → destination` one:
+     * members read from source paths (`mapFrom`, `forPath`, `@MapProperty`, flattening) are
+     * written back to those paths, two-way `transform`s apply their backward converter and
+     * nested objects and arrays map back through their reverse nested map. `overrides`
+     * configure source members explicitly (`MappingBuilder.forSourceMember`).
+     */
     createReverseMap<S extends object, D extends object>(
         source: ClassType<S>,
-        destination: ClassType<D>
+        destination: ClassType<D>,
+        overrides?: MappingConfig<D, S>
     ): this {
-        const forwardEntry = this.findEntry(source, destination);
+        const forwardEntry = this.getMapping(source, destination);
         if (!forwardEntry) {
-            throw new Error(`No forward mapping found for ${source.name} -> ${destination.name}`);
+            throw new MappingNotFoundError(source.name, destination.name);
         }
 
-        const reverseConfig: any = {};
-        if (forwardEntry.config) {
-            for (const [destKey, mapperFn] of Object.entries(forwardEntry.config)) {
-                const sourcePath = (mapperFn as any).__sourcePath;
-                if (sourcePath) {
-                    reverseConfig[sourcePath] = (src: D) => (src as any)[destKey];
-                } else {
-                    reverseConfig[destKey] = (src: D) => (src as any)[destKey];
+        const plan = this.getPlan(forwardEntry, undefined, '');
+        const members: ReversedMember[] = [];
+        const oneWay: string[] = [];
+        const reverse = (
+            destKey: string,
+            path: readonly string[],
+            { backward, nestedType }: MemberReversal = {},
+            sourceType?: ClassType
+        ) => {
+            // The source class of the nested member picks the reverse map if several exist
+            const nestedSource = nestedType && (sourceType ?? getPathType(source, path));
+            members.push({
+                path,
+                read: (src, context) => {
+                    const value = src[destKey];
+                    if (nestedType) return this.mapBack(value, nestedType, nestedSource, context);
+                    return backward ? backward(value) : value;
                 }
+            });
+        };
+
+        // Flattened members are written back into the nested source members they came from
+        for (const [key, paths] of this.findFlattenedPaths(plan)) {
+            if (paths.length === 1) reverse(key, paths[0]);
+        }
+
+        for (const step of plan.steps) {
+            if (step.kind === 'path' && !step.transformer) {
+                reverse(step.key, step.path);
+            } else if (step.kind === 'nested') {
+                const sourceType =
+                    typeof step.sourceType === 'function' ? step.sourceType : undefined;
+                reverse(step.key, step.path ?? [step.key], { nestedType: step.type }, sourceType);
+            } else if (step.kind === 'config' ? step.resolverType : step.transformer) {
+                // Resolvers and transformers compute values no source member holds as is
+                oneWay.push(step.key);
+            }
+        }
+
+        for (const [destKey, mapperFn] of Object.entries(forwardEntry.config ?? {})) {
+            // Resolver members are one-way; their plan steps were collected above
+            if (mapperFn instanceof ResolverReference) continue;
+            const reversal = getReversal(mapperFn);
+            if (!reversal) {
+                reverse(destKey, [destKey]);
+            } else if (reversal.sourcePath) {
+                reverse(destKey, reversal.sourcePath.split('.'), reversal);
+            } else {
+                oneWay.push(destKey);
             }
         }
 
-        const reverseOptions = (forwardEntry.options ?? {}) as unknown as MappingEntryOptions<D, S>;
+        const reverseConfig: any = Object.fromEntries(createMemberWriters(source, members));
+        Object.assign(reverseConfig, overrides);
+
+        // One-way members must not be copied back by name either
+        const reverseOptions = this.getReverseOptions(forwardEntry);
+        const ignored = oneWay.filter(key => !(key in reverseConfig));
+        if (ignored.length) reverseOptions.ignore = [...(reverseOptions.ignore ?? []), ...ignored];
         return this.createMap(
             destination,
             source,
             reverseConfig as MappingConfig<D, S>,
-            reverseOptions
+            reverseOptions as MappingEntryOptions<D, S>
         );
     }
 
+    /**
+     * The options a map was created with, turned around for its reverse: names convert the
+     * other way, and hooks, polymorphic dispatch, type converters and cache keys, which are
+     * typed by the forward direction, are dropped. `createMap` merges the global and
+     * `@Mappable` options of the reverse destination itself.
+     */
+    private getReverseOptions(entry: MappingRegistryEntry<any, any>): MappingEntryOptions {
+        const options: MappingEntryOptions = { ...this.mapOptions.get(entry) };
+        delete options.beforeMap;
+        delete options.afterMap;
+        delete options.polymorphic;
+        delete options.typeConverters;
+        if (options.convertNaming) {
+            const { from, to } = options.convertNaming;
+            options.convertNaming = { from: to, to: from };
+        }
+        if (options.cache) {
+            options.cache = { ...options.cache };
+            delete options.cache.key;
+            delete options.cache.namespace;
+        }
+        return options;
+    }
+
+    /**
+     * Maps a nested destination value back to its source class with the reverse of the
+     * `→ nestedType` map; undefined when no reverse map is registered.
+     */
+    private mapBack(
+        value: unknown,
+        nestedType: ClassType,
+        sourceType: ClassType | undefined,
+        context: MappingContext
+    ): unknown {
+        if (value === null || value === undefined) return value;
+
+        let target = sourceType && this.getMapping(nestedType, sourceType) ? sourceType : undefined;
+        if (!target) {
+            const candidates = this.getEntries().filter(
+                entry =>
+                    entry.source === nestedType &&
+                    this.getMapping(entry.destination, nestedType) !== undefined
+            );
+            if (candidates.length !== 1) return undefined;
+            target = candidates[0].destination;
+        }
+
+        const options = { context, sourceType: nestedType };
+        return Array.isArray(value)
+            ? this.mapArray(value, target, options)
+            : this.map(value as object, target, options);
+    }
+
+    /** `@Mappable` options of a destination class, as map options. */
+    private getClassOptions(destination: ClassType): MappingEntryOptions {
+        const mappable: MappableClassOptions | undefined = Reflect.getMetadata(
+            MAPPABLE_CLASS_METADATA_KEY,
+            destination
+        );
+        if (!mappable) return {};
+
+        const options: MappingEntryOptions = {
+            autoMapAll: mappable.autoMapAll,
+            convertNaming: mappable.namingConvention,
+            skipNulls: mappable.skipNulls,
+            skipUndefined: mappable.skipUndefined
+        };
+        // Unset class options must not clear global ones
+        for (const key of Object.keys(options) as Array<keyof MappingEntryOptions>) {
+            if (options[key] === undefined) delete options[key];
+        }
+        return options;
+    }
+
     /** Safely merges two MappingEntryOptions while preserving typing. */
     private mergeOptions<S extends object, D extends object>(
         base?: MappingEntryOptions<S, D>,
@@ -171,25 +463,59 @@ export class Mapper {
     map<S extends object, D extends object>(
         sourceObj: S,
         destinationClass: ClassType<D>,
-        _options?: TransformOptions
+        options?: MapOptions
     ): D {
-        const entry = this.findEntry(sourceObj.constructor as ClassType<S>, destinationClass);
-        if (!entry) {
-            throw this.createMappingError(
-                sourceObj.constructor.name,
-                destinationClass.name,
-                'Mapping not found'
-            );
-        }
+        return this.runMap(sourceObj, destinationClass, options);
+    }
 
-        const key = this.getRegistryKey(entry.source, entry.destination);
+    /**
+     * Maps onto an existing destination instance (PATCH semantics): skipped nulls/undefined
+     * leave current values as is and `@MapNested` members are merged recursively.
+     */
+    mapInto<S extends object, D extends object>(
+        sourceObj: S,
+        destination: D,
+        options?: MapIntoOptions
+    ): D {
+        return this.runMap(
+            sourceObj,
+            destination.constructor as ClassType<D>,
+            options,
+            destination
+        );
+    }
 
-        if (this.isCacheEnabled(entry)) {
-            const mapForSource = this.instanceCache.get(sourceObj as any);
-            if (mapForSource) {
-                const cached = mapForSource.get(destinationClass);
-                if (cached) return cached as D;
-            }
+    private runMap<S extends object, D extends object>(
+        sourceObj: S,
+        destinationClass: ClassType<D>,
+        options?: MapIntoOptions,
+        target?: D
+    ): D {
+        const entry = this.requireEntry(sourceObj, destinationClass, options);
+        return this.runEntry(entry, sourceObj, options, this.getOptionsKey(options), target);
+    }
+
+    private runEntry<S extends object, D extends object>(
+        entry: MappingRegistryEntry<S, D>,
+        sourceObj: S,
+        options: MapIntoOptions | undefined,
+        optionsKey: string,
+        target?: D
+    ): D {
+        // An existing target fixes the destination class, so no polymorphic dispatch
+        const concrete = target ? undefined : this.resolvePolymorphicDestination(entry, sourceObj);
+        if (concrete) return this.runMap(sourceObj, concrete, options);
+
+        const plan = this.getPlan(entry, options, optionsKey);
+        const context = this.createCallContext(sourceObj, plan, options, target);
+        if (this.isBeyondMaxDepth(context)) return undefined as unknown as D;
+
+        const seen = this.findReference(context, entry.destination);
+        if (seen !== undefined) return seen as D;
+
+        if (this.isCacheable(entry, context, target)) {
+            const cached = this.getCachedResult(entry, sourceObj, optionsKey);
+            if (cached !== undefined) return cached as D;
         }
 
         try {
@@ -197,36 +523,34 @@ export class Mapper {
             let preProcessed = sourceObj;
 
             if (typeof hooks.beforeMap === 'function') {
-                preProcessed = (hooks.beforeMap as (src: S) => S)(
-                    hooks.deepCloneBeforeMap ? deepClone(sourceObj) : sourceObj
+                preProcessed = (hooks.beforeMap as (src: S, ctx: MappingContext) => S)(
+                    hooks.deepCloneBeforeMap ? deepClone(sourceObj) : sourceObj,
+                    context
                 );
             }
 
-            let compiled = this.compiledMapFns.get(key);
-            if (!compiled) compiled = this.compileMapFunction(entry);
-
-            let result = compiled!(preProcessed);
+            let result = this.executePlan(plan, preProcessed, context);
 
             if (typeof hooks.afterMap === 'function') {
-                result = (hooks.afterMap as (dest: D) => D)(result);
+                result = (hooks.afterMap as (dest: D, src: S, ctx: MappingContext) => D)(
+                    result,
+                    preProcessed,
+                    context
+                );
+                this.trackReference(context, entry.destination, result);
             }
 
-            if (this.isCacheEnabled(entry)) {
-                let mapForSource = this.instanceCache.get(sourceObj as any);
-                if (!mapForSource) {
-                    mapForSource = new Map<new (...args: any[]) => any, any>();
-                    this.instanceCache.set(sourceObj as any, mapForSource);
-                }
-                mapForSource.set(destinationClass, result);
+            if (this.isCacheable(entry, context, target)) {
+                this.setCachedResult(entry, sourceObj, optionsKey, result);
             }
 
             return result as D;
         } catch (error) {
             throw this.createMappingError(
-                sourceObj.constructor.name,
-                destinationClass.name,
+                getTypeName(options?.sourceType ?? sourceObj.constructor),
+                entry.destination.name,
                 'Mapping failed',
-                error as Error
+                error
             );
         }
     }
@@ -235,55 +559,90 @@ export class Mapper {
     async mapAsync<S extends object, D extends object>(
         sourceObj: S,
         destinationClass: ClassType<D>,
-        _options?: TransformOptions
+        options?: MapOptions
     ): Promise<D> {
-        const entry = this.findEntry(sourceObj.constructor as ClassType<S>, destinationClass);
-        if (!entry) {
-            throw this.createMappingError(
-                sourceObj.constructor.name,
-                destinationClass.name,
-                'Mapping not found'
-            );
-        }
+        return this.runMapAsync(sourceObj, destinationClass, options);
+    }
 
-        const key = this.getRegistryKey(entry.source, entry.destination);
+    /** Async variant of `mapInto`. */
+    async mapIntoAsync<S extends object, D extends object>(
+        sourceObj: S,
+        destination: D,
+        options?: MapIntoOptions
+    ): Promise<D> {
+        return this.runMapAsync(
+            sourceObj,
+            destination.constructor as ClassType<D>,
+            options,
+            destination
+        );
+    }
 
-        if (this.isCacheEnabled(entry)) {
-            const mapForSource = this.instanceCache.get(sourceObj as any);
-            if (mapForSource) {
-                const cached = mapForSource.get(destinationClass);
-                if (cached) return cached as D;
-            }
-        }
+    private async runMapAsync<S extends object, D extends object>(
+        sourceObj: S,
+        destinationClass: ClassType<D>,
+        options?: MapIntoOptions,
+        target?: D
+    ): Promise<D> {
+        const entry = this.requireEntry(sourceObj, destinationClass, options);
+        return this.runEntryAsync(entry, sourceObj, options, this.getOptionsKey(options), target);
+    }
 
-        const hooks = entry.options ?? {};
-        let preProcessed = sourceObj;
+    private async runEntryAsync<S extends object, D extends object>(
+        entry: MappingRegistryEntry<S, D>,
+        sourceObj: S,
+        options: MapIntoOptions | undefined,
+        optionsKey: string,
+        target?: D
+    ): Promise<D> {
+        const concrete = target ? undefined : this.resolvePolymorphicDestination(entry, sourceObj);
+        if (concrete) return this.runMapAsync(sourceObj, concrete, options);
 
-        if (typeof hooks.beforeMap === 'function') {
-            preProcessed = await Promise.resolve(
-                (hooks.beforeMap as (src: S) => S | Promise<S>)(deepClone(sourceObj))
-            );
+        const plan = this.getPlan(entry, options, optionsKey);
+        const context = this.createCallContext(sourceObj, plan, options, target);
+        if (this.isBeyondMaxDepth(context)) return undefined as unknown as D;
+
+        const seen = this.findReference(context, entry.destination);
+        if (seen !== undefined) return seen as D;
+
+        if (this.isCacheable(entry, context, target)) {
+            const cached = await this.getCachedResultAsync(entry, sourceObj, optionsKey);
+            if (cached !== undefined) return cached as D;
         }
 
-        let asyncFn = this.compiledAsyncMapFns.get(key);
-        if (!asyncFn) asyncFn = this.compileAsyncMapFunction(entry);
+        try {
+            const hooks = entry.options ?? {};
+            let preProcessed = sourceObj;
 
-        let result = await asyncFn(preProcessed);
+            if (typeof hooks.beforeMap === 'function') {
+                preProcessed = await Promise.resolve(
+                    hooks.beforeMap(
+                        hooks.deepCloneBeforeMap ? deepClone(sourceObj) : sourceObj,
+                        context
+                    )
+                );
+            }
 
-        if (typeof hooks.afterMap === 'function') {
-            result = await Promise.resolve((hooks.afterMap as (dest: D) => D | Promise<D>)(result));
-        }
+            let result = await this.executePlanAsync(plan, preProcessed, context);
 
-        if (this.isCacheEnabled(entry)) {
-            let mapForSource = this.instanceCache.get(sourceObj as any);
-            if (!mapForSource) {
-                mapForSource = new Map<new (...args: any[]) => any, any>();
-                this.instanceCache.set(sourceObj as any, mapForSource);
+            if (typeof hooks.afterMap === 'function') {
+                result = await Promise.resolve(hooks.afterMap(result, preProcessed, context));
+                this.trackReference(context, entry.destination, result);
             }
-            mapForSource.set(destinationClass, result);
-        }
 
-        return result as D;
+            if (this.isCacheable(entry, context, target)) {
+                this.setCachedResult(entry, sourceObj, optionsKey, result);
+            }
+
+            return result as D;
+        } catch (error) {
+            throw this.createMappingError(
+                getTypeName(options?.sourceType ?? sourceObj.constructor),
+                entry.destination.name,
+                'Mapping failed',
+                error
+            );
+        }
     }
 
     // ---------- Utility Methods ----------
@@ -322,17 +681,38 @@ export class Mapper {
     mapArray<S extends object, D extends object>(
         sourceArray: S[],
         destinationClass: ClassType<D>,
-        options?: TransformOptions
+        options?: MapOptions
     ): D[] {
-        return sourceArray.map(item => this.map(item, destinationClass, options));
+        const resolve = this.createEntryResolver(destinationClass, options);
+        const optionsKey = this.getOptionsKey(options);
+        return sourceArray.map((item, index) => {
+            // Null and undefined items stay in place, like null nested members
+            if (item === null || item === undefined) return item;
+            try {
+                return this.runEntry(resolve(item), item, options, optionsKey);
+            } catch (error) {
+                throw this.prependErrorPath(error, index);
+            }
+        });
     }
 
     async mapArrayAsync<S extends object, D extends object>(
         sourceArray: S[],
         destinationClass: ClassType<D>,
-        options?: TransformOptions
+        options?: MapOptions
     ): Promise<D[]> {
-        return Promise.all(sourceArray.map(item => this.mapAsync(item, destinationClass, options)));
+        const resolve = this.createEntryResolver(destinationClass, options);
+        const optionsKey = this.getOptionsKey(options);
+        return Promise.all(
+            sourceArray.map(async (item, index) => {
+                if (item === null || item === undefined) return item;
+                try {
+                    return await this.runEntryAsync(resolve(item), item, options, optionsKey);
+                } catch (error) {
+                    throw this.prependErrorPath(error, index);
+                }
+            })
+        );
     }
 
     mapConditional<S extends object, D extends object>(
@@ -350,24 +730,31 @@ export class Mapper {
     }
 
     addValidation<T>(targetClass: ClassType<T>, property: string, rule: ValidationRule): this {
-        const key = `${targetClass.name}.${property}`;
-        const rules = this.validationRules.get(key) || [];
+        let byProperty = this.validationRules.get(targetClass);
+        if (!byProperty) {
+            byProperty = new Map();
+            this.validationRules.set(targetClass, byProperty);
+        }
+        const rules = byProperty.get(property) || [];
         rules.push(rule);
-        this.validationRules.set(key, rules);
+        byProperty.set(property, rules);
         return this;
     }
 
     async validate<T extends object>(obj: T): Promise<boolean> {
         const className = obj.constructor.name;
+        const byProperty = this.validationRules.get(obj.constructor as ClassType);
 
         for (const key in obj) {
-            const ruleKey = `${className}.${key}`;
-            const rules = this.validationRules.get(ruleKey);
+            const rules = byProperty?.get(key);
             if (rules) {
                 for (const rule of rules) {
                     const isValid = await Promise.resolve(rule.validate((obj as any)[key]));
                     if (!isValid) {
-                        throw new Error(`Validation failed for ${key}: ${rule.message}`);
+                        throw new MappingValidationError(
+                            `Validation failed for ${key}: ${rule.message}`,
+                            { destinationType: className, property: key }
+                        );
                     }
                 }
             }
@@ -376,255 +763,733 @@ export class Mapper {
         return true;
     }
 
+    /**
+     * Checks every registered map and throws one MappingConfigurationError listing each
+     * destination member that is not populated by a same-named source member, a mapping
+     * function, a `@MapProperty`/`@MapNested` decorator, a nested source path it flattens
+     * or an explicit ignore. Flattened names matching several source paths and configured
+     * members the destination does not declare are reported too.
+     */
+    assertConfigurationIsValid(): void {
+        const errors: string[] = [];
+        for (const entry of this.getEntries()) {
+            for (const error of this.findMemberErrors(entry)) {
+                errors.push(`${getTypeName(entry.source)} → ${entry.destination.name}: ${error}`);
+            }
+        }
+
+        if (errors.length) {
+            const report = errors.map(error => `  - ${error}`).join('\n');
+            throw new MappingConfigurationError(`Invalid mapping configuration\n${report}`, {
+                errors
+            });
+        }
+    }
+
     clear(): void {
-        this.registry = [];
-        this.reverseRegistry.clear();
+        this.registry.clear();
         this.validationRules.clear();
-        this.compiledMapFns.clear();
-        this.compiledAsyncMapFns.clear();
+        this.plans = new WeakMap();
+        this.typeConverters.clear();
+        this.resolvers.clear();
+        this.profiles.clear();
         this.instanceCache = new WeakMap();
+        this.cacheStore?.clear();
+        this.cacheStats = { hits: 0, misses: 0 };
+        this.entryCacheStats = new WeakMap();
+    }
+
+    /** Returns the map registered for exactly this source/destination pair, if any. */
+    getMapping<S extends object, D extends object>(
+        source: MappingSource<S>,
+        destination: ClassType<D>
+    ): MappingRegistryEntry<S, D> | undefined {
+        return this.registry.get(source)?.get(destination);
     }
 
     getMappings(): Array<{ source: string; destination: string }> {
-        return this.registry.map(entry => ({
-            source: entry.source.name,
+        return this.getEntries().map(entry => ({
+            source: getTypeName(entry.source),
             destination: entry.destination.name
         }));
     }
 
     // ---------- PRIVATE HELPERS ----------
+    /** Finds the map of a source object, honouring an explicit `sourceType`. */
+    private requireEntry<S extends object, D extends object>(
+        sourceObj: S,
+        destinationClass: ClassType<D>,
+        options?: MapOptions
+    ): MappingRegistryEntry<S, D> {
+        const sourceType = options?.sourceType ?? (sourceObj.constructor as ClassType<S>);
+        const entry = this.findEntry(sourceType, destinationClass);
+        if (!entry) {
+            throw new MappingNotFoundError(getTypeName(sourceType), destinationClass.name);
+        }
+        return entry;
+    }
+
+    /** Resolves maps once per source type rather than once per array element. */
+    private createEntryResolver<D extends object>(
+        destinationClass: ClassType<D>,
+        options?: MapOptions
+    ): (item: any) => MappingRegistryEntry<any, D> {
+        const resolved = new Map<unknown, MappingRegistryEntry<any, D>>();
+        return item => {
+            const sourceType = options?.sourceType ?? item.constructor;
+            let entry = resolved.get(sourceType);
+            if (!entry) {
+                entry = this.requireEntry(item, destinationClass, options);
+                resolved.set(sourceType, entry);
+            }
+            return entry;
+        };
+    }
+
     private findEntry<S extends object, D extends object>(
-        source: ClassType<S>,
+        source: MappingSource<S>,
         destination: ClassType<D>
     ): MappingRegistryEntry<S, D> | undefined {
-        const key = this.getRegistryKey(source, destination);
-        return (
-            this.reverseRegistry.get(key) ||
-            this.registry.find(r => r.source === source && r.destination === destination)
-        );
+        if (typeof source !== 'function') return this.getMapping(source, destination);
+
+        // Walk the source prototype chain so subclasses reuse their base class map
+        for (
+            let type: any = source;
+            typeof type === 'function';
+            type = Object.getPrototypeOf(type)
+        ) {
+            const entry = this.registry.get(type)?.get(destination);
+            if (entry) return entry;
+        }
+        return undefined;
     }
 
-    private getRegistryKey(source: ClassType<any>, destination: ClassType<any>): string {
-        return `${source.name}->${destination.name}`;
+    /**
+     * Picks the concrete destination of a polymorphic map, or undefined when the
+     * entry itself should be used.
+     */
+    private resolvePolymorphicDestination(
+        entry: MappingRegistryEntry<any, any>,
+        sourceObj: any
+    ): ClassType | undefined {
+        const polymorphic = entry.options?.polymorphic;
+        if (!polymorphic) return undefined;
+
+        const { types, discriminator } = polymorphic;
+        const lookup = (key: unknown): ClassType | undefined =>
+            types instanceof Map
+                ? types.get(key)
+                : typeof key === 'string'
+                  ? (types as Record<string, ClassType>)[key]
+                  : undefined;
+
+        let concrete: ClassType | undefined;
+        let value: unknown;
+        if (discriminator === undefined) {
+            value = sourceObj.constructor;
+            for (let type = value; !concrete && typeof type === 'function'; ) {
+                concrete = lookup(type);
+                type = Object.getPrototypeOf(type);
+            }
+        } else {
+            value =
+                typeof discriminator === 'function'
+                    ? discriminator(sourceObj)
+                    : sourceObj[discriminator];
+            concrete = lookup(value);
+        }
+
+        if (!concrete) {
+            if (polymorphic.onUnknown !== 'error') return undefined;
+            const label = typeof value === 'function' ? value.name : String(value);
+            throw new MappingError(`No polymorphic mapping for discriminator "${label}"`, {
+                sourceType: getTypeName(entry.source),
+                destinationType: entry.destination.name
+            });
+        }
+
+        return concrete === entry.destination ? undefined : concrete;
     }
 
-    private compileMapFunction<S extends object, D extends object>(
-        entry: MappingRegistryEntry<S, D>
-    ) {
-        const key = this.getRegistryKey(entry.source, entry.destination);
-
-        const compiledFn = (src: any, _ctx?: MappingContext) => {
-            const dest = new (entry.destination as any)();
-
-            // Copy primitives
-            for (const k in src) {
-                if (entry.options?.ignore?.includes?.(k)) continue;
-                if (entry.options?.include && !entry.options.include.includes(k)) continue;
-                if (entry.options?.skipNulls && src[k] === null) continue;
-                if (entry.options?.skipUndefined && src[k] === undefined) continue;
-
-                let targetKey = k;
-                if ((entry.options as any)?.convertNaming) {
-                    targetKey = convertNamingConvention(
-                        k,
-                        (entry.options as any).convertNaming.from,
-                        (entry.options as any).convertNaming.to
-                    ) as string;
-                }
+    // ---------- Configuration Validation ----------
+    /** Problems of each destination member of a map, e.g. `"name" is not mapped`. */
+    private findMemberErrors(entry: MappingRegistryEntry<any, any>): string[] {
+        // The members of a plain-object shape are unknown at runtime
+        if (typeof entry.source !== 'function') return [];
+
+        const options = entry.options ?? {};
+        const decorated = (Reflect.getMetadata(AUTO_MAP_METADATA_KEY, entry.destination) ||
+            {}) as Record<string, any>;
+        // Members with their own source (path, nested, resolver, rename) need no same-named one
+        const plan = this.getPlan(entry, undefined, '');
+        const resolved = new Set(
+            plan.steps.filter(step => step.kind !== 'same').map(step => step.key)
+        );
+        const flattened = this.findFlattenedPaths(plan);
+
+        const sourceMembers = new Set(
+            getDeclaredMembers(entry.source).map(
+                key =>
+                    plan.renames.get(key) ??
+                    (options.convertNaming
+                        ? convertNamingConvention(
+                              key,
+                              options.convertNaming.from,
+                              options.convertNaming.to
+                          )
+                        : key)
+            )
+        );
 
-                if (targetKey in dest) {
-                    dest[targetKey] = entry.options?.deepClone ? deepClone(src[k]) : src[k];
-                }
+        const errors: string[] = [];
+        const declared = getDeclaredMembers(entry.destination);
+        // Configured members the destination never declares are typically typos
+        for (const key of Object.keys(entry.config ?? {})) {
+            if (!declared.includes(key) && !(key in entry.destination.prototype)) {
+                errors.push(`"${key}" is configured but not declared by the destination`);
             }
+        }
 
-            // Apply configured mapping functions
-            if (entry.config) {
-                for (const destKey in entry.config) {
-                    const mapperFn = (entry.config as any)[destKey];
-                    try {
-                        const value = mapperFn(src);
-                        if (entry.options?.skipNulls && value === null) continue;
-                        if (entry.options?.skipUndefined && value === undefined) continue;
-                        dest[destKey] = value;
-                    } catch (err) {
-                        if (entry.options?.strict) throw err;
-                    }
-                }
+        for (const key of declared) {
+            if (entry.config && key in entry.config) continue;
+            if (decorated[key]?.ignore || isMemberExcluded(options, key)) continue;
+            if (plan.resolveDestination || resolved.has(key) || sourceMembers.has(key)) continue;
+
+            const paths = flattened.get(key) ?? [];
+            if (paths.length > 1) {
+                const candidates = paths.map(path => path.join('.')).join(', ');
+                errors.push(`"${key}" is ambiguous between ${candidates}`);
+            } else if (!paths.length) {
+                errors.push(`"${key}" is not mapped`);
             }
+        }
+        return errors;
+    }
 
-            // Decorator-driven mappings
-            const autoMeta = (Reflect.getMetadata(AUTO_MAP_METADATA_KEY, entry.destination) ||
-                {}) as Record<string, any>;
-
-            for (const destKey of Object.keys(autoMeta)) {
-                if ((entry.config && (entry.config as any)[destKey]) || dest[destKey] !== undefined)
-                    continue;
+    /**
+     * Source paths of each flattened destination member that exist in the source class,
+     * for members the source does not declare directly.
+     */
+    private findFlattenedPaths(plan: MappingPlan): Map<string, string[][]> {
+        const found = new Map<string, string[][]>();
+        const source = plan.entry.source;
+        if (typeof source !== 'function') return found;
+
+        const sourceMembers = new Set(getDeclaredMembers(source));
+        for (const step of plan.steps) {
+            if (step.kind !== 'same' || !step.flatten) continue;
+            if (sourceMembers.has(step.key) || sourceMembers.has(step.flatten.member)) continue;
+            found.set(step.key, findSourcePaths(source, step.flatten.paths));
+        }
+        return found;
+    }
 
-                const nestedTypeFactory = Reflect.getMetadata(
-                    MAP_NESTED_METADATA_KEY,
-                    entry.destination.prototype,
-                    destKey
-                );
+    private getEntries(): MappingRegistryEntry<any, any>[] {
+        const entries: MappingRegistryEntry<any, any>[] = [];
+        for (const byDestination of this.registry.values()) entries.push(...byDestination.values());
+        return entries;
+    }
 
-                const sourcePath = Reflect.getMetadata(
-                    MAP_PROPERTY_METADATA_KEY,
-                    entry.destination.prototype,
-                    destKey
-                );
+    // ---------- Reference Tracking ----------
+    /** Creates the context of one map call; top-level calls open the identity table. */
+    private createCallContext(
+        sourceObj: object,
+        plan: MappingPlan,
+        options?: MapIntoOptions,
+        target?: object
+    ): MappingContext {
+        const { entry } = plan;
+        const context = createMappingContext(sourceObj, target, options?.context);
+        if (target) {
+            context.merge = { arrays: options?.arrays ?? context.merge?.arrays ?? 'replace' };
+        }
+        context.options = plan.options;
+        if (options?.extraArgs) {
+            context.extraArgs = { ...context.extraArgs, ...options.extraArgs };
+        }
+        if (!context.references && entry.options?.preserveReferences) {
+            context.references = new Map();
+        }
+        if (context.maxDepth === undefined) context.maxDepth = entry.options?.maxDepth;
+        return context;
+    }
 
-                const transformer = Reflect.getMetadata(
-                    TRANSFORM_METADATA_KEY,
-                    entry.destination.prototype,
-                    destKey
-                );
+    // ---------- Mapping Plans ----------
+    /** Returns the plan of a map for one per-call option set, building it on first use. */
+    private getPlan(
+        entry: MappingRegistryEntry<any, any>,
+        options: TransformOptions | undefined,
+        optionsKey: string
+    ): MappingPlan {
+        let byOptions = this.plans.get(entry);
+        if (!byOptions) {
+            byOptions = new Map();
+            this.plans.set(entry, byOptions);
+        }
 
-                if (sourcePath) {
-                    const parts = (sourcePath as string).split('.');
-                    let val: any = src;
-                    for (const p of parts) val = val?.[p];
-                    dest[destKey] = transformer ? transformer(val, src) : val;
-                } else if (nestedTypeFactory) {
-                    const nestedType = nestedTypeFactory();
-                    const nestedVal = src[destKey];
-
-                    if (nestedVal === undefined || nestedVal === null) {
-                        dest[destKey] = nestedVal;
-                    } else if (Array.isArray(nestedVal)) {
-                        dest[destKey] = nestedVal.map((it: any) => this.map(it, nestedType));
-                    } else {
-                        dest[destKey] = this.map(nestedVal, nestedType);
-                    }
-                } else {
-                    if (destKey in src) {
-                        const val = src[destKey];
-                        dest[destKey] = transformer ? transformer(val, src) : val;
-                    }
-                }
+        let plan = byOptions.get(optionsKey);
+        if (!plan) {
+            const planOptions = this.mergeOptions(entry.options, {
+                ignore: options?.ignore,
+                convertNaming: options?.convertNaming ?? entry.options?.convertNaming
+            });
+            // A per-call include narrows the map's own list instead of extending it
+            if (options?.include) {
+                const own = entry.options?.include;
+                planOptions.include = own
+                    ? options.include.filter(key => own.includes(key))
+                    : [...options.include];
             }
+            plan = buildMappingPlan(entry, planOptions, {
+                typeConverters: this.typeConverters,
+                getResolver: type => this.getResolver(type)
+            });
+            byOptions.set(optionsKey, plan);
+        }
+        return plan;
+    }
 
-            return dest;
-        };
+    /** One resolver instance per class and mapper. */
+    private getResolver(type: ClassType<ValueResolver>): ValueResolver {
+        let instance = this.resolvers.get(type);
+        if (!instance) {
+            instance = this.resolverFactory(type);
+            this.resolvers.set(type, instance);
+        }
+        return instance;
+    }
 
-        this.compiledMapFns.set(key, compiledFn);
-        return compiledFn;
+    // ---------- Per-call Options ----------
+    /** Identifies the per-call transform options a cached result was produced with. */
+    private getOptionsKey(options?: TransformOptions): string {
+        if (!options?.ignore && !options?.include && !options?.convertNaming) return '';
+        return JSON.stringify([options.ignore, options.include, options.convertNaming]);
     }
 
-    private compileAsyncMapFunction<S extends object, D extends object>(
-        entry: MappingRegistryEntry<S, D>
-    ) {
-        const key = this.getRegistryKey(entry.source, entry.destination);
-
-        const asyncFn = async (src: any, _ctx?: any) => {
-            const dest = new (entry.destination as any)();
-
-            // Copy primitives
-            for (const k in src) {
-                if (entry.options?.ignore?.includes?.(k)) continue;
-                if (entry.options?.include && !entry.options.include.includes(k)) continue;
-                if (entry.options?.skipNulls && src[k] === null) continue;
-                if (entry.options?.skipUndefined && src[k] === undefined) continue;
-
-                let targetKey = k;
-                if ((entry.options as any)?.convertNaming) {
-                    targetKey = convertNamingConvention(
-                        k,
-                        (entry.options as any).convertNaming.from,
-                        (entry.options as any).convertNaming.to
-                    ) as string;
-                }
+    // ---------- Result Cache ----------
+    /** Global cache settings overridden by the map's own `cache` options. */
+    private getCacheConfig(entry: MappingRegistryEntry<any, any>): CacheConfig {
+        return { ...this.cacheConfig, ...entry.options?.cache };
+    }
 
-                if (targetKey in dest) {
-                    dest[targetKey] = entry.options?.deepClone ? deepClone(src[k]) : src[k];
-                }
-            }
+    private getCacheAdapter(config: CacheConfig): MappingCacheAdapter {
+        this.assertCacheAdapter(config);
+        if (config.adapter) return config.adapter;
+        if (!this.cacheStore) this.cacheStore = new LruCacheAdapter(this.cacheConfig.maxSize);
+        return this.cacheStore;
+    }
 
-            // Config functions may be async
-            if (entry.config) {
-                for (const destKey in entry.config) {
-                    const mapperFn = (entry.config as any)[destKey];
-                    try {
-                        const value = await Promise.resolve(mapperFn(src));
-                        if (entry.options?.skipNulls && value === null) continue;
-                        if (entry.options?.skipUndefined && value === undefined) continue;
-                        dest[destKey] = value;
-                    } catch (err) {
-                        if (entry.options?.strict) throw err;
-                    }
-                }
-            }
+    private assertCacheAdapter(config: CacheConfig): void {
+        if (config.strategy === 'redis' && !config.adapter) {
+            throw new MappingConfigurationError("The 'redis' cache strategy requires an adapter");
+        }
+    }
 
-            // Decorator-driven mappings
-            const autoMeta = (Reflect.getMetadata(AUTO_MAP_METADATA_KEY, entry.destination) ||
-                {}) as Record<string, any>;
+    private getCacheNamespace(entry: MappingRegistryEntry<any, any>): string {
+        const { namespace } = this.getCacheConfig(entry);
+        if (namespace !== undefined) return namespace;
 
-            for (const destKey of Object.keys(autoMeta)) {
-                if ((entry.config && (entry.config as any)[destKey]) || dest[destKey] !== undefined)
-                    continue;
+        let id = this.entryIds.get(entry);
+        if (id === undefined) {
+            id = ++this.nextEntryId;
+            this.entryIds.set(entry, id);
+        }
+        return `${getTypeName(entry.source)}->${entry.destination.name}#${id}`;
+    }
 
-                const nestedTypeFactory = Reflect.getMetadata(
-                    MAP_NESTED_METADATA_KEY,
-                    entry.destination.prototype,
-                    destKey
-                );
+    /** Store key of a keyed entry, or undefined to cache by source identity. */
+    private getCacheKey(
+        entry: MappingRegistryEntry<any, any>,
+        config: CacheConfig,
+        sourceObj: object,
+        optionsKey: string
+    ): string | undefined {
+        const key = config.key?.(sourceObj);
+        if (key === undefined || key === null) return undefined;
+        return `${this.getCacheNamespace(entry)}:${optionsKey}:${key}`;
+    }
 
-                const sourcePath = Reflect.getMetadata(
-                    MAP_PROPERTY_METADATA_KEY,
-                    entry.destination.prototype,
-                    destKey
-                );
+    /** Reads a cached result; external adapters may answer with a promise. */
+    private lookupCache(
+        entry: MappingRegistryEntry<any, any>,
+        sourceObj: object,
+        optionsKey: string
+    ): unknown {
+        const config = this.getCacheConfig(entry);
+        const key = this.getCacheKey(entry, config, sourceObj, optionsKey);
+        if (key !== undefined) return this.getCacheAdapter(config).get(key);
+
+        const byOptions = this.instanceCache.get(entry)?.get(sourceObj);
+        const cached = byOptions?.get(optionsKey);
+        if (cached?.expiresAt !== undefined && cached.expiresAt <= Date.now()) {
+            byOptions!.delete(optionsKey);
+            return undefined;
+        }
+        return cached?.value;
+    }
 
-                const transformer = Reflect.getMetadata(
-                    TRANSFORM_METADATA_KEY,
-                    entry.destination.prototype,
-                    destKey
-                );
+    private getCachedResult(
+        entry: MappingRegistryEntry<any, any>,
+        sourceObj: object,
+        optionsKey: string
+    ): unknown {
+        const cached = this.lookupCache(entry, sourceObj, optionsKey);
+        // A pending read of an async store can only serve mapAsync
+        if (cached instanceof Promise) {
+            cached.catch(() => undefined);
+            return this.countCacheLookup(entry, undefined);
+        }
+        return this.countCacheLookup(entry, cached);
+    }
+
+    private async getCachedResultAsync(
+        entry: MappingRegistryEntry<any, any>,
+        sourceObj: object,
+        optionsKey: string
+    ): Promise<unknown> {
+        return this.countCacheLookup(entry, await this.lookupCache(entry, sourceObj, optionsKey));
+    }
+
+    private countCacheLookup(entry: MappingRegistryEntry<any, any>, cached: unknown): unknown {
+        let stats = this.entryCacheStats.get(entry);
+        if (!stats) {
+            stats = { hits: 0, misses: 0 };
+            this.entryCacheStats.set(entry, stats);
+        }
+        const counter = cached === undefined ? 'misses' : 'hits';
+        stats[counter]++;
+        this.cacheStats[counter]++;
+        return cached;
+    }
+
+    private setCachedResult(
+        entry: MappingRegistryEntry<any, any>,
+        sourceObj: object,
+        optionsKey: string,
+        result: unknown
+    ): void {
+        const config = this.getCacheConfig(entry);
+        const key = this.getCacheKey(entry, config, sourceObj, optionsKey);
+        if (key !== undefined) {
+            const write = this.getCacheAdapter(config).set(key, result, config.ttlMs);
+            // Cache writes are best effort: a failing store must not fail the map call
+            if (write instanceof Promise) write.catch(() => undefined);
+            return;
+        }
+
+        let bySource = this.instanceCache.get(entry);
+        if (!bySource) {
+            bySource = new WeakMap();
+            this.instanceCache.set(entry, bySource);
+        }
+        let byOptions = bySource.get(sourceObj);
+        if (!byOptions) {
+            byOptions = new Map();
+            bySource.set(sourceObj, byOptions);
+        }
+        byOptions.set(optionsKey, {
+            value: result,
+            expiresAt: config.ttlMs ? Date.now() + config.ttlMs : undefined
+        });
+    }
+
+    private isBeyondMaxDepth(context: MappingContext) {
+        const { maxDepth } = context;
+        return maxDepth !== undefined && (context.depth ?? 0) > maxDepth;
+    }
+
+    private findReference(context: MappingContext, destination: ClassType<any>): unknown {
+        return context.references?.get(context.source as object)?.get(destination);
+    }
 
-                if (sourcePath) {
-                    const parts = (sourcePath as string).split('.');
-                    let val: any = src;
-                    for (const p of parts) val = val?.[p];
-                    dest[destKey] = transformer ? transformer(val, src) : val;
-                } else if (nestedTypeFactory) {
-                    const nestedType = nestedTypeFactory();
-                    const nestedVal = src[destKey];
-
-                    if (nestedVal === undefined || nestedVal === null) {
-                        dest[destKey] = nestedVal;
-                    } else if (Array.isArray(nestedVal)) {
-                        dest[destKey] = await Promise.all(
-                            nestedVal.map(async (it: any) => this.mapAsync(it, nestedType))
+    private trackReference(context: MappingContext, destination: ClassType<any>, value: unknown) {
+        if (!context.references) return;
+        let bySource = context.references.get(context.source as object);
+        if (!bySource) {
+            bySource = new Map();
+            context.references.set(context.source as object, bySource);
+        }
+        bySource.set(destination, value);
+    }
+
+    // ---------- Plan Execution ----------
+    private executePlan(plan: MappingPlan, src: any, ctx: MappingContext): any {
+        const { entry, options } = plan;
+        if (plan.resolveDestination) {
+            return this.requireSyncValue(entry, this.resolveDestination(plan, src, ctx));
+        }
+        const dest = this.prepareDestination(plan, src, ctx);
+
+        for (const step of plan.steps) {
+            try {
+                if (step.kind === 'config') {
+                    const value = this.requireSyncValue(entry, step.resolve(src, ctx));
+                    this.assignMember(options, dest, step.key, value);
+                } else if (step.kind !== 'nested') {
+                    this.applyValueStep(plan, step, src, dest, ctx);
+                } else {
+                    const value = step.path ? readPath(src, step.path) : src[step.key];
+                    const nestedOptions = { context: ctx, sourceType: step.sourceType };
+                    if (value === undefined || value === null) {
+                        this.assignMember(options, dest, step.key, value);
+                    } else if (Array.isArray(value)) {
+                        this.assignMember(
+                            options,
+                            dest,
+                            step.key,
+                            ctx.merge
+                                ? this.mergeArray(dest[step.key], value, step.type, nestedOptions)
+                                : this.mapArray(value, step.type, nestedOptions)
                         );
+                    } else if (ctx.merge && isObject(dest[step.key])) {
+                        this.runMap(value, step.type, nestedOptions, dest[step.key]);
                     } else {
-                        dest[destKey] = await this.mapAsync(nestedVal, nestedType);
+                        this.assignMember(
+                            options,
+                            dest,
+                            step.key,
+                            this.map(value, step.type, nestedOptions)
+                        );
                     }
+                }
+            } catch (err) {
+                if (this.isSuppressedError(step, options, err)) continue;
+                throw this.createMemberError(entry, step.key, err);
+            }
+        }
+
+        return dest;
+    }
+
+    private async executePlanAsync(plan: MappingPlan, src: any, ctx: MappingContext) {
+        const { entry, options } = plan;
+        if (plan.resolveDestination) return await this.resolveDestination(plan, src, ctx);
+        const dest = this.prepareDestination(plan, src, ctx);
+
+        for (const step of plan.steps) {
+            try {
+                if (step.kind === 'config') {
+                    // Member functions may be async
+                    const value = await Promise.resolve(step.resolve(src, ctx));
+                    this.assignMember(options, dest, step.key, value);
+                } else if (step.kind !== 'nested') {
+                    this.applyValueStep(plan, step, src, dest, ctx);
                 } else {
-                    if (destKey in src) {
-                        const val = src[destKey];
-                        dest[destKey] = transformer ? transformer(val, src) : val;
+                    const value = step.path ? readPath(src, step.path) : src[step.key];
+                    const nestedOptions = { context: ctx, sourceType: step.sourceType };
+                    if (value === undefined || value === null) {
+                        this.assignMember(options, dest, step.key, value);
+                    } else if (Array.isArray(value)) {
+                        this.assignMember(
+                            options,
+                            dest,
+                            step.key,
+                            ctx.merge
+                                ? await this.mergeArrayAsync(
+                                      dest[step.key],
+                                      value,
+                                      step.type,
+                                      nestedOptions
+                                  )
+                                : await this.mapArrayAsync(value, step.type, nestedOptions)
+                        );
+                    } else if (ctx.merge && isObject(dest[step.key])) {
+                        await this.runMapAsync(value, step.type, nestedOptions, dest[step.key]);
+                    } else {
+                        this.assignMember(
+                            options,
+                            dest,
+                            step.key,
+                            await this.mapAsync(value, step.type, nestedOptions)
+                        );
                     }
                 }
+            } catch (err) {
+                if (this.isSuppressedError(step, options, err)) continue;
+                throw this.createMemberError(entry, step.key, err);
             }
+        }
 
-            return dest;
-        };
+        return dest;
+    }
 
-        this.compiledAsyncMapFns.set(key, asyncFn);
-        return asyncFn;
+    /**
+     * Member functions only surface their errors in strict mode; configuration errors,
+     * such as a resolver the container cannot create, always do.
+     */
+    private isSuppressedError(step: MemberStep, options: MappingEntryOptions, err: unknown) {
+        return (
+            step.kind === 'config' && !options.strict && !(err instanceof MappingConfigurationError)
+        );
     }
 
-    // ---------- Error Builder ----------
+    /**
+     * `@UseMapper` on the destination class: its resolver receives the new (or mapInto)
+     * destination and returns the result, or undefined to keep the destination it was given.
+     */
+    private resolveDestination(plan: MappingPlan, src: any, ctx: MappingContext): any {
+        const dest = (ctx.destination as any) ?? new (plan.entry.destination as any)();
+        ctx.destination = dest;
+        const result = plan.resolveDestination!(src, ctx);
+        return isThenable(result) ? result.then(value => value ?? dest) : (result ?? dest);
+    }
+
+    /**
+     * Synchronous maps cannot wait for async member functions or resolvers; storing their
+     * promise on the destination would go unnoticed.
+     */
+    private requireSyncValue<T>(entry: MappingRegistryEntry<any, any>, value: T): T {
+        if (!isThenable(value)) return value;
+        throw new MappingConfigurationError('Value resolves asynchronously; use mapAsync', {
+            sourceType: getTypeName(entry.source),
+            destinationType: entry.destination.name
+        });
+    }
+
+    /** Creates (or takes the mapInto target as) the destination and copies plain members. */
+    private prepareDestination(plan: MappingPlan, src: any, ctx: MappingContext): any {
+        const { entry, options } = plan;
+        const dest = (ctx.destination as any) ?? new (entry.destination as any)();
+        ctx.destination = dest;
+        this.trackReference(ctx, entry.destination, dest);
+
+        for (const key in src) {
+            const value = src[key];
+            if (options.skipNulls && value === null) continue;
+            if (options.skipUndefined && value === undefined) continue;
+
+            const targetKey = resolveCopyTarget(plan, key);
+            if (targetKey !== null && (targetKey in dest || plan.autoMapMembers?.has(targetKey))) {
+                const member = convertMemberValue(plan, targetKey, value, ctx);
+                dest[targetKey] = member === value && options.deepClone ? deepClone(value) : member;
+            }
+        }
+        return dest;
+    }
+
+    /** Resolves `@MapProperty` paths, same-named decorated members and flattened members. */
+    private applyValueStep(
+        plan: MappingPlan,
+        step: Extract<MemberStep, { kind: 'path' | 'same' }>,
+        src: any,
+        dest: any,
+        ctx: MappingContext
+    ): void {
+        let value: any;
+        if (step.kind === 'path') {
+            value = readPath(src, step.path);
+        } else if (step.key in src) {
+            // Plain members present on the destination were already copied
+            if (!step.transformer && step.key in dest) return;
+            value = src[step.key];
+        } else {
+            if (!step.flatten || step.flatten.member in src) return;
+            const flattened = readFlattened(src, step.flatten.paths);
+            if (!flattened.found) return;
+            value = flattened.value;
+        }
+        // @Transform wins over type converters
+        this.assignMember(
+            plan.options,
+            dest,
+            step.key,
+            step.transformer
+                ? step.transformer(value, src, ctx)
+                : convertMemberValue(plan, step.key, value, ctx)
+        );
+    }
+
+    private assignMember(options: MappingEntryOptions, dest: any, key: string, value: unknown) {
+        if (options.skipNulls && value === null) return;
+        if (options.skipUndefined && value === undefined) return;
+        dest[key] = value;
+    }
+
+    // ---------- Array Merging (mapInto) ----------
+    /** Maps `items` onto an existing destination array following the mapInto array policy. */
+    private mergeArray(
+        existing: unknown,
+        items: any[],
+        type: ClassType,
+        options: MapOptions & { context: MappingContext }
+    ) {
+        const policy = options.context.merge?.arrays ?? 'replace';
+        const current: any[] = Array.isArray(existing) ? existing : [];
+        if (policy === 'replace') return this.mapArray(items, type, options);
+        if (policy === 'append') return [...current, ...this.mapArray(items, type, options)];
+
+        const merged = [...current];
+        items.forEach((item, index) => {
+            try {
+                const match = this.findMergeMatch(merged, item, policy.mergeBy);
+                if (match) this.runMap(item, type, options, match);
+                else merged.push(this.map(item, type, options));
+            } catch (error) {
+                throw this.prependErrorPath(error, index);
+            }
+        });
+        return merged;
+    }
+
+    private async mergeArrayAsync(
+        existing: unknown,
+        items: any[],
+        type: ClassType,
+        options: MapOptions & { context: MappingContext }
+    ) {
+        const policy = options.context.merge?.arrays ?? 'replace';
+        const current: any[] = Array.isArray(existing) ? existing : [];
+        if (policy === 'replace') return this.mapArrayAsync(items, type, options);
+        if (policy === 'append') {
+            return [...current, ...(await this.mapArrayAsync(items, type, options))];
+        }
+
+        const merged = [...current];
+        for (const [index, item] of items.entries()) {
+            try {
+                const match = this.findMergeMatch(merged, item, policy.mergeBy);
+                if (match) await this.runMapAsync(item, type, options, match);
+                else merged.push(await this.mapAsync(item, type, options));
+            } catch (error) {
+                throw this.prependErrorPath(error, index);
+            }
+        }
+        return merged;
+    }
+
+    private findMergeMatch(current: any[], item: any, key: string): any {
+        const id = item?.[key];
+        if (id === undefined || id === null) return undefined;
+        return current.find(existing => existing?.[key] === id);
+    }
+
+    // ---------- Error Builders ----------
     private createMappingError(
         sourceType: string,
         destinationType: string,
         message: string,
-        originalError?: Error
-    ): Error {
-        const err = new Error(
-            `Mapping Error [${sourceType} → ${destinationType}]: ${message}${
-                originalError ? ` | Cause: ${originalError.message}` : ''
-            }`
-        );
-        (err as any).originalError = originalError;
-        return err;
+        cause?: unknown
+    ): MappingError {
+        // Errors raised deeper in the graph already carry their types and path
+        if (cause instanceof MappingError) return cause;
+        return new MappingError(message, { sourceType, destinationType, cause });
+    }
+
+    private createMemberError(
+        entry: MappingRegistryEntry<any, any>,
+        destKey: string,
+        cause: unknown
+    ): MappingError {
+        if (cause instanceof MappingError) return cause.prependPath(destKey);
+        return new MemberResolutionError({
+            sourceType: getTypeName(entry.source),
+            destinationType: entry.destination.name,
+            path: destKey,
+            cause
+        });
+    }
+
+    private prependErrorPath(error: unknown, index: number): unknown {
+        return error instanceof MappingError ? error.prependPath(index) : error;
     }
 }
@@ -0,0 +1,134 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { LruCacheAdapter } from './mapping-cache';
+import { MapNested } from '../decorators';
+
+class Address {
+    city = '';
+}
+
+class AddressDto {
+    city = '';
+}
+
+class User {
+    id = 0;
+    name = '';
+    address = new Address();
+}
+
+class UserDto {
+    id = 0;
+    name = '';
+
+    @MapNested(() => AddressDto)
+    address?: AddressDto;
+}
+
+function createUser(id: number, name: string): User {
+    return Object.assign(new User(), { id, name });
+}
+
+describe('result cache', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper({ cache: { enabled: true } });
+        mapper.createMap(Address, AddressDto);
+        mapper.createMap(User, UserDto);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('serve repeated maps of a source from the cache and count hits and misses', () => {
+        const user = createUser(1, 'ann');
+        const first = mapper.map(user, UserDto);
+
+        user.name = 'changed';
+        expect(mapper.map(user, UserDto)).toBe(first);
+        expect(mapper.map(user, UserDto, { ignore: ['name'] })).not.toBe(first);
+        expect(mapper.getCacheStats(User, UserDto)).toEqual({ hits: 1, misses: 2 });
+    });
+
+    it('expire entries after their ttl', () => {
+        jest.useFakeTimers();
+        mapper.clear();
+        mapper.createMap(Address, AddressDto);
+        mapper.createMap(User, UserDto, {}, { cache: { enabled: true, ttlMs: 1000 } });
+
+        const user = createUser(1, 'ann');
+        const first = mapper.map(user, UserDto);
+        jest.advanceTimersByTime(999);
+        expect(mapper.map(user, UserDto)).toBe(first);
+        jest.advanceTimersByTime(1);
+        expect(mapper.map(user, UserDto)).not.toBe(first);
+    });
+
+    it('share keyed entries between copies of a record until invalidated', async () => {
+        mapper.clear();
+        mapper.createMap(Address, AddressDto);
+        mapper.createMap(User, UserDto, {}, { cache: { enabled: true, key: user => user.id } });
+
+        const first = mapper.map(createUser(1, 'ann'), UserDto);
+        expect(mapper.map(createUser(1, 'copy'), UserDto)).toBe(first);
+        expect(mapper.map(createUser(2, 'bob'), UserDto).name).toBe('bob');
+
+        await mapper.invalidateCache(User, UserDto);
+        expect(mapper.map(createUser(1, 'copy'), UserDto).name).toBe('copy');
+    });
+
+    it('keep keyed entries of same-named destination classes apart', () => {
+        const createDto = () =>
+            class UserDto {
+                id = 0;
+                name = '';
+            };
+        const FirstDto = createDto();
+        const SecondDto = createDto();
+        const keyed = new Mapper({ cache: { enabled: true, key: (user: User) => user.id } });
+        keyed.createMap(User, FirstDto);
+        keyed.createMap(User, SecondDto);
+
+        const user = createUser(1, 'ann');
+        const first = keyed.map(user, FirstDto);
+        const second = keyed.map(user, SecondDto);
+        expect(second).not.toBe(first);
+        expect(second).toBeInstanceOf(SecondDto);
+        expect(keyed.map(user, FirstDto)).toBe(first);
+    });
+
+    it('evict the least recently used keys beyond maxSize', () => {
+        const store = new LruCacheAdapter(2);
+        store.set('a', 1);
+        store.set('b', 2);
+        store.get('a');
+        store.set('c', 3);
+
+        expect(store.get('b')).toBeUndefined();
+        expect([store.get('a'), store.get('c')]).toEqual([1, 3]);
+    });
+
+    it('bypass calls with extraArgs', () => {
+        mapper.clear();
+        mapper.createMap(Address, AddressDto);
+        mapper.createMap(User, UserDto, {
+            name: (user: User, context) => `${context?.extraArgs?.prefix ?? ''}${user.name}`
+        });
+
+        const user = createUser(1, 'ann');
+        expect(mapper.map(user, UserDto).name).toBe('ann');
+        expect(mapper.map(user, UserDto, { extraArgs: { prefix: 'a:' } }).name).toBe('a:ann');
+        expect(mapper.map(user, UserDto, { extraArgs: { prefix: 'b:' } }).name).toBe('b:ann');
+        expect(mapper.map(user, UserDto).name).toBe('ann');
+    });
+
+    it('bypass maps nested in another map call', () => {
+        const user = createUser(1, 'ann');
+        const address = mapper.map(user.address, AddressDto);
+
+        expect(mapper.map(user, UserDto).address).not.toBe(address);
+        expect(mapper.getCacheStats(Address, AddressDto)).toEqual({ hits: 0, misses: 1 });
+    });
+});
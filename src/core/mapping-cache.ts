@@ -0,0 +1,58 @@
+import type { MappingCacheAdapter } from './types';
+
+interface CacheRecord {
+    value: unknown;
+    expiresAt?: number;
+}
+
+/**
+ * Built-in in-process cache store: least recently used entries are evicted once
+ * `maxSize` is exceeded, and entries expire after their TTL.
+ */
+export class LruCacheAdapter implements MappingCacheAdapter {
+    private records = new Map<string, CacheRecord>();
+
+    constructor(private readonly maxSize: number = 1000) {}
+
+    get size(): number {
+        return this.records.size;
+    }
+
+    get(key: string): unknown {
+        const record = this.records.get(key);
+        if (!record) return undefined;
+        if (record.expiresAt !== undefined && record.expiresAt <= Date.now()) {
+            this.records.delete(key);
+            return undefined;
+        }
+
+        // Re-insert so iteration order stays least -> most recently used
+        this.records.delete(key);
+        this.records.set(key, record);
+        return record.value;
+    }
+
+    set(key: string, value: unknown, ttlMs?: number): void {
+        this.records.delete(key);
+        this.records.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+
+        while (this.records.size > this.maxSize) {
+            const oldest = this.records.keys().next().value as string;
+            this.records.delete(oldest);
+        }
+    }
+
+    delete(key: string): void {
+        this.records.delete(key);
+    }
+
+    deletePrefix(prefix: string): void {
+        for (const key of [...this.records.keys()]) {
+            if (key.startsWith(prefix)) this.records.delete(key);
+        }
+    }
+
+    clear(): void {
+        this.records.clear();
+    }
+}
@@ -6,21 +6,26 @@ export interface MappingOptions {
 }
 
 export class MappingConfigurator {
-    private configs = new Map<string, MappingConfig<any, any>>();
+    // Keyed by constructor identity so same-named classes never collide
+    private configs = new Map<ClassType, Map<ClassType, MappingConfig<any, any>>>();
 
     register<S extends object, D extends object>(
         source: ClassType<S>,
         destination: ClassType<D>,
         config: MappingConfig<S, D>
     ) {
-        const key = `${source.name}->${destination.name}`;
-        this.configs.set(key, config);
+        let byDestination = this.configs.get(source);
+        if (!byDestination) {
+            byDestination = new Map();
+            this.configs.set(source, byDestination);
+        }
+        byDestination.set(destination, config);
     }
 
     get<S extends object, D extends object>(
         source: ClassType<S>,
         destination: ClassType<D>
     ): MappingConfig<S, D> | undefined {
-        return this.configs.get(`${source.name}->${destination.name}`);
+        return this.configs.get(source)?.get(destination);
     }
 }
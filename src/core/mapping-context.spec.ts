@@ -0,0 +1,187 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import type { MappingContext } from './types';
+import { MapNested, Transform } from '../decorators';
+
+class Person {
+    name = '';
+    friends: Person[] = [];
+    manager?: Person;
+}
+
+class PersonDto {
+    name = '';
+
+    @MapNested(() => PersonDto)
+    friends?: PersonDto[];
+
+    @MapNested(() => PersonDto)
+    manager?: PersonDto;
+}
+
+class Owner {
+    name = 'ann';
+}
+
+class OwnerDto {
+    name = '';
+}
+
+class File {
+    owner = new Owner();
+}
+
+class FileDto {
+    @MapNested(() => OwnerDto)
+    owner?: OwnerDto;
+}
+
+class Folder {
+    file = new File();
+}
+
+class FolderDto {
+    @MapNested(() => FileDto)
+    file?: FileDto;
+}
+
+class Price {
+    amount = 0;
+}
+
+class PriceDto {
+    @Transform((amount: number, _price: Price, context?: MappingContext) =>
+        amount.toLocaleString(context?.extraArgs?.locale)
+    )
+    amount = '';
+    currency = '';
+}
+
+class Product {
+    name = '';
+    price = new Price();
+}
+
+class ProductDto {
+    name = '';
+    viewer = '';
+
+    @MapNested(() => PriceDto)
+    price?: PriceDto;
+}
+
+function createPerson(name: string): Person {
+    return Object.assign(new Person(), { name });
+}
+
+describe('mapping context', () => {
+    it('maps each source once per call and closes cycles with preserveReferences', () => {
+        const mapper = new Mapper({ globalOptions: { preserveReferences: true } });
+        mapper.createMap(Person, PersonDto);
+
+        const ann = createPerson('ann');
+        const bob = createPerson('bob');
+        ann.friends = [bob];
+        ann.manager = bob;
+        bob.friends = [ann];
+
+        const dto = mapper.map(ann, PersonDto);
+        expect(dto.manager).toBe(dto.friends![0]);
+        expect(dto.friends![0].friends![0]).toBe(dto);
+        expect(mapper.map(ann, PersonDto)).not.toBe(dto);
+    });
+
+    it('closes cycles under mapAsync with beforeMap hooks', async () => {
+        const mapper = new Mapper({ globalOptions: { preserveReferences: true } });
+        mapper.createMap(Person, PersonDto, undefined, { beforeMap: person => person });
+
+        const ann = createPerson('ann');
+        const bob = createPerson('bob');
+        ann.manager = bob;
+        bob.friends = [ann];
+
+        const dto = await mapper.mapAsync(ann, PersonDto);
+        expect(dto.manager?.friends?.[0]).toBe(dto);
+        expect(dto.manager?.name).toBe('bob');
+    });
+
+    it('leaves members below maxDepth undefined', () => {
+        const mapper = new Mapper({ globalOptions: { maxDepth: 1 } });
+        mapper.createMap(Person, PersonDto);
+
+        const ann = createPerson('ann');
+        const bob = createPerson('bob');
+        ann.manager = bob;
+        bob.manager = createPerson('cid');
+
+        const dto = mapper.map(ann, PersonDto);
+        expect(dto.manager?.name).toBe('bob');
+        expect(dto.manager?.manager).toBeUndefined();
+    });
+
+    it('applies the maxDepth of the top-level call to nested maps without one', () => {
+        const mapper = new Mapper();
+        mapper.createMap(Owner, OwnerDto);
+        mapper.createMap(File, FileDto);
+        mapper.createMap(Folder, FolderDto, {}, { maxDepth: 1 });
+
+        const dto = mapper.map(new Folder(), FolderDto);
+        expect(dto.file).toBeInstanceOf(FileDto);
+        expect(dto.file?.owner).toBeUndefined();
+        expect(mapper.map(new File(), FileDto).owner?.name).toBe('ann');
+    });
+
+    describe('extraArgs', () => {
+        const product = Object.assign(new Product(), { name: 'pen' });
+        product.price.amount = 1234.5;
+
+        it('reach member functions, transformers and hooks of nested maps', async () => {
+            const mapper = new Mapper();
+            new MappingBuilder(mapper, Price, PriceDto)
+                .forMember('currency', (_price, context) => context.extraArgs?.currency)
+                .register();
+            new MappingBuilder(mapper, Product, ProductDto)
+                .beforeMap((source, context) => {
+                    expect(context.extraArgs?.currency).toBe('EUR');
+                    return source;
+                })
+                .afterMap((dto, _source, context) => {
+                    dto.viewer = context.extraArgs?.viewer;
+                    return dto;
+                })
+                .register();
+
+            const extraArgs = { locale: 'de-DE', currency: 'EUR', viewer: 'ann' };
+            const expected = { amount: '1.234,5', currency: 'EUR' };
+            expect(mapper.map(product, ProductDto, { extraArgs })).toMatchObject({
+                viewer: 'ann',
+                price: expected
+            });
+            await expect(
+                mapper.mapAsync(product, ProductDto, { extraArgs })
+            ).resolves.toMatchObject({ viewer: 'ann', price: expected });
+        });
+
+        it('run nested maps in child contexts', () => {
+            const contexts: MappingContext[] = [];
+            const mapper = new Mapper();
+            mapper.createMap(Price, PriceDto, {
+                currency: (_price: Price, context: MappingContext) => {
+                    contexts.push(context);
+                    return '';
+                }
+            });
+            mapper.createMap(Product, ProductDto);
+
+            mapper.map(product, ProductDto, { extraArgs: { locale: 'en-US' } });
+            const [context] = contexts;
+            expect(context.depth).toBe(1);
+            expect(context.source).toBe(product.price);
+            expect(context.destination).toBeInstanceOf(PriceDto);
+            expect(context.parent?.source).toBe(product);
+            expect(context.parent?.depth).toBe(0);
+            expect(context.extraArgs).toEqual({ locale: 'en-US' });
+        });
+    });
+});
@@ -13,6 +13,10 @@ export function createMappingContext(
         destination,
         parent,
         depth: parent ? (parent.depth ?? 0) + 1 : 0,
-        options: {}
+        options: {},
+        extraArgs: parent?.extraArgs,
+        references: parent?.references,
+        maxDepth: parent?.maxDepth,
+        merge: parent?.merge
     };
 }
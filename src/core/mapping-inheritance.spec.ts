@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import { MappingConfigurationError } from './errors';
+
+class User {
+    firstName = 'ann';
+    lastName = 'lee';
+    email: string | null = null;
+}
+
+class AdminUser extends User {
+    permissions = ['all'];
+}
+
+class UserDto {
+    fullName = '';
+    email: string | null = 'none';
+}
+
+class AdminUserDto extends UserDto {
+    role = '';
+    permissions: string[] = [];
+}
+
+describe('mapping inheritance', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper();
+        new MappingBuilder(mapper, User, UserDto)
+            .forMember('fullName', user => `${user.firstName} ${user.lastName}`)
+            .skipNulls()
+            .register();
+    });
+
+    it('applies base class maps to subclass sources', () => {
+        const dto = mapper.map(new AdminUser(), UserDto);
+
+        expect(dto).toBeInstanceOf(UserDto);
+        expect(dto.fullName).toBe('ann lee');
+        expect(mapper.mapArray([new User(), new AdminUser()], UserDto)).toHaveLength(2);
+    });
+
+    it('prefers the map of the closest source class', () => {
+        mapper.createMap(AdminUser, UserDto, { fullName: () => 'admin' });
+
+        expect(mapper.map(new AdminUser(), UserDto).fullName).toBe('admin');
+        expect(mapper.map(new User(), UserDto).fullName).toBe('ann lee');
+    });
+
+    it('inherits members and options with includeBase and overrides what differs', () => {
+        new MappingBuilder(mapper, AdminUser, AdminUserDto)
+            .includeBase(User, UserDto)
+            .forMember('role', () => 'admin')
+            .register();
+
+        const dto = mapper.map(new AdminUser(), AdminUserDto);
+        expect(dto).toBeInstanceOf(AdminUserDto);
+        expect(dto).toMatchObject({
+            fullName: 'ann lee',
+            email: 'none',
+            role: 'admin',
+            permissions: ['all']
+        });
+    });
+
+    it('rejects includeBase with a source class that is not a base', () => {
+        expect(() =>
+            new MappingBuilder(mapper, User, AdminUserDto).includeBase(AdminUser, UserDto)
+        ).toThrow(
+            new MappingConfigurationError('User does not extend AdminUser', {
+                sourceType: 'User',
+                destinationType: 'AdminUserDto'
+            })
+        );
+    });
+});
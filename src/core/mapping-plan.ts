@@ -0,0 +1,336 @@
+import type {
+    ClassType,
+    ConvertibleType,
+    MappingContext,
+    MappingEntryOptions,
+    MappingRegistryEntry,
+    MappingSource,
+    TypeConverter,
+    ValueResolver
+} from './types';
+import { ResolverReference } from './value-resolver';
+import { MappingConfigurationError } from './errors';
+import { getDeclaredMembers, getFlatteningPaths } from './flattening';
+import { convertNamingConvention } from '../utils/naming-convention.util';
+import { getTypeName } from '../utils/type-check.util';
+import {
+    AUTO_MAP_METADATA_KEY,
+    MAP_NESTED_METADATA_KEY,
+    MAP_PROPERTY_METADATA_KEY,
+    MAPPER_DESTINATION,
+    MAPPER_SOURCE,
+    TRANSFORM_METADATA_KEY,
+    USE_MAPPER
+} from '../decorators';
+
+type Transformer = (value: any, source: any, context?: MappingContext) => any;
+
+/** Converters by destination type, then by source value type. */
+export type TypeConverterRegistry = Map<ConvertibleType, Map<ConvertibleType, TypeConverter>>;
+
+/**
+ * Mapper state a plan is built against.
+ */
+export interface PlanDependencies {
+    typeConverters: TypeConverterRegistry;
+    getResolver: (type: ClassType<ValueResolver>) => ValueResolver;
+}
+
+/**
+ * One destination member resolved ahead of time, in execution order.
+ */
+export type MemberStep =
+    | {
+          kind: 'config';
+          key: string;
+          resolve: (source: any, context: MappingContext) => unknown;
+          resolverType?: ClassType<ValueResolver>;
+      }
+    | { kind: 'path'; key: string; path: readonly string[]; transformer?: Transformer }
+    | {
+          kind: 'nested';
+          key: string;
+          type: ClassType;
+          path?: readonly string[];
+          sourceType?: MappingSource;
+      }
+    | { kind: 'same'; key: string; transformer?: Transformer; flatten?: FlattenedSource };
+
+/**
+ * Nested source paths a flat destination member is read from when the source has no
+ * `member` of its own, e.g. `address.city` for `addressCity`.
+ */
+export interface FlattenedSource {
+    /** Source member copied to the destination member, when present */
+    member: string;
+    /** Candidate paths, in lookup order */
+    paths: readonly string[][];
+}
+
+/**
+ * Everything a map call needs, resolved once per map and per-call option set:
+ * effective options and member steps, so no metadata is read while mapping.
+ */
+export interface MappingPlan {
+    readonly entry: MappingRegistryEntry<any, any>;
+    /** Entry options merged with the per-call options the plan was built for */
+    readonly options: MappingEntryOptions;
+    readonly steps: readonly MemberStep[];
+    /** `@UseMapper` resolver of the destination class, which builds the whole destination */
+    readonly resolverType?: ClassType<ValueResolver>;
+    readonly resolveDestination?: (source: any, context: MappingContext) => unknown;
+    /** Source member -> destination member it is copied to, from `@MapTo('name')` */
+    readonly renames: ReadonlyMap<string, string>;
+    /** Memoized destination key of each source key seen by the copy phase (null: not copied) */
+    readonly copyTargets: Map<string, string | null>;
+    /** Type converters of each destination member, by source value type */
+    readonly converters: Map<string, Map<ConvertibleType, TypeConverter>>;
+    /** Declared destination members `autoMapAll` copies onto, set when the option is on */
+    readonly autoMapMembers?: ReadonlySet<string>;
+}
+
+/** A member is excluded when any of its names is ignored or none of them is included. */
+export function isMemberExcluded(options: MappingEntryOptions, ...keys: string[]): boolean {
+    if (options.ignore?.some(k => keys.includes(k as string))) return true;
+    return !!options.include && !options.include.some(k => keys.includes(k as string));
+}
+
+export function buildMappingPlan(
+    entry: MappingRegistryEntry<any, any>,
+    options: MappingEntryOptions,
+    { typeConverters, getResolver }: PlanDependencies
+): MappingPlan {
+    const prototype = entry.destination.prototype;
+    const config = (entry.config ?? {}) as Record<string, any>;
+    const steps: MemberStep[] = [];
+    const resolveWith =
+        (type: ClassType<ValueResolver>) => (source: any, context: MappingContext) =>
+            getResolver(type).resolve(source, context.destination, context);
+
+    for (const key of Object.keys(config)) {
+        if (isMemberExcluded(options, key)) continue;
+        const member = config[key];
+        if (member instanceof ResolverReference) {
+            steps.push({
+                kind: 'config',
+                key,
+                resolve: resolveWith(member.type),
+                resolverType: member.type
+            });
+        } else {
+            steps.push({ kind: 'config', key, resolve: member });
+        }
+    }
+
+    const renames = new Map<string, string>(
+        typeof entry.source === 'function'
+            ? Object.entries(Reflect.getMetadata(MAPPER_DESTINATION, entry.source) || {})
+            : []
+    );
+    const renamedFrom = new Map([...renames].map(([sourceKey, target]) => [target, sourceKey]));
+    const flattenMember = (key: string): FlattenedSource | undefined => {
+        const paths = getFlatteningPaths(key, options);
+        if (!paths.length) return undefined;
+        const member =
+            renamedFrom.get(key) ??
+            (options.convertNaming
+                ? convertNamingConvention(key, options.convertNaming.to, options.convertNaming.from)
+                : key);
+        return { member, paths };
+    };
+
+    const decorated = (Reflect.getMetadata(AUTO_MAP_METADATA_KEY, entry.destination) ||
+        {}) as Record<string, any>;
+    const converters = resolveMemberConverters(
+        prototype,
+        Object.keys(decorated),
+        options,
+        typeConverters
+    );
+
+    for (const key of Object.keys(decorated)) {
+        if (decorated[key]?.ignore || isMemberExcluded(options, key) || config[key]) continue;
+
+        const resolverType = Reflect.getMetadata(USE_MAPPER, prototype, key);
+        if (resolverType) {
+            steps.push({ kind: 'config', key, resolve: resolveWith(resolverType), resolverType });
+            continue;
+        }
+
+        // @MapProperty/@MapFrom path, then @AutoMap({ name }), then a source-side rename
+        const name = decorated[key]?.name;
+        const sourcePath: string | undefined =
+            Reflect.getMetadata(MAP_PROPERTY_METADATA_KEY, prototype, key) ??
+            (name && name !== key ? name : renamedFrom.get(key));
+        const path = sourcePath?.split('.');
+        const transformer = Reflect.getMetadata(TRANSFORM_METADATA_KEY, prototype, key);
+        const nestedType = resolveNestedType(entry, key);
+
+        if (nestedType) {
+            const sourceType = Reflect.getMetadata(MAPPER_SOURCE, prototype, key);
+            steps.push({ kind: 'nested', key, type: nestedType, path, sourceType });
+        } else if (path) {
+            steps.push({ kind: 'path', key, path, transformer });
+        } else {
+            steps.push({ kind: 'same', key, transformer, flatten: flattenMember(key) });
+        }
+    }
+
+    // Undecorated members held by a new destination may still be flattened
+    for (const key of getDeclaredMembers(entry.destination)) {
+        if (key in decorated || key in config || isMemberExcluded(options, key)) continue;
+        const flatten = flattenMember(key);
+        if (flatten) steps.push({ kind: 'same', key, flatten });
+    }
+
+    const resolverType = Reflect.getOwnMetadata(USE_MAPPER, entry.destination);
+    return {
+        entry,
+        options,
+        steps,
+        resolverType,
+        resolveDestination: resolverType && resolveWith(resolverType),
+        renames,
+        copyTargets: new Map(),
+        converters,
+        autoMapMembers: options.autoMapAll
+            ? new Set(getDeclaredMembers(entry.destination))
+            : undefined
+    };
+}
+
+/**
+ * Destination class of a nested member: its `@MapNested`/`@MapTo`/`@AutoMap` type, or its
+ * declared type when only the source is given (`@MapFrom(SourceClass)`).
+ */
+function resolveNestedType(
+    entry: MappingRegistryEntry<any, any>,
+    key: string
+): ClassType | undefined {
+    const prototype = entry.destination.prototype;
+    const nestedTypeFactory = Reflect.getMetadata(MAP_NESTED_METADATA_KEY, prototype, key);
+    if (nestedTypeFactory) return nestedTypeFactory();
+    if (!Reflect.hasMetadata(MAPPER_SOURCE, prototype, key)) return undefined;
+
+    const type = Reflect.getMetadata('design:type', prototype, key);
+    if (typeof type !== 'function' || type === Object || type === Array) {
+        throw new MappingConfigurationError(
+            `Cannot infer the destination class of ${entry.destination.name}.${key}; add @MapTo(DestinationClass)`,
+            {
+                sourceType: getTypeName(entry.source),
+                destinationType: entry.destination.name,
+                path: key
+            }
+        );
+    }
+    return type;
+}
+
+/**
+ * Picks the converters of each member from its `design:type`; the map's own
+ * converters override global ones registered for the same type pair.
+ */
+function resolveMemberConverters(
+    prototype: object,
+    members: string[],
+    options: MappingEntryOptions,
+    typeConverters: TypeConverterRegistry
+): Map<string, Map<ConvertibleType, TypeConverter>> {
+    const resolved = new Map<string, Map<ConvertibleType, TypeConverter>>();
+    if (!typeConverters.size && !options.typeConverters?.length) return resolved;
+
+    for (const key of members) {
+        const type = Reflect.getMetadata('design:type', prototype, key);
+        if (!type) continue;
+
+        const byFrom = new Map(typeConverters.get(type));
+        for (const { from, to, convert } of options.typeConverters ?? []) {
+            if (to === type) byFrom.set(from, convert);
+        }
+        if (byFrom.size) resolved.set(key, byFrom);
+    }
+    return resolved;
+}
+
+/**
+ * Applies the member's converter for the runtime type of `value`, if any.
+ * Object values match converters of their class or any base class.
+ */
+export function convertMemberValue(
+    plan: MappingPlan,
+    key: string,
+    value: unknown,
+    context: MappingContext
+): unknown {
+    const converters = plan.converters.get(key);
+    if (!converters || value === null || value === undefined) return value;
+
+    let convert: TypeConverter | undefined;
+    switch (typeof value) {
+        case 'string':
+            convert = converters.get(String);
+            break;
+        case 'number':
+            convert = converters.get(Number);
+            break;
+        case 'boolean':
+            convert = converters.get(Boolean);
+            break;
+        case 'bigint':
+            convert = converters.get(BigInt);
+            break;
+        default:
+            for (
+                let proto = Object.getPrototypeOf(value);
+                proto && !convert;
+                proto = Object.getPrototypeOf(proto)
+            ) {
+                convert = converters.get(proto.constructor);
+            }
+    }
+    return convert ? convert(value, context) : value;
+}
+
+/** Reads a (dotted) source path, yielding undefined past a missing member. */
+export function readPath(source: any, path: readonly string[]): unknown {
+    let value = source;
+    for (const part of path) value = value?.[part];
+    return value;
+}
+
+/**
+ * Destination key a source key is copied to, or null when the member is excluded or
+ * resolved by a decorator step instead.
+ */
+export function resolveCopyTarget(plan: MappingPlan, sourceKey: string): string | null {
+    let target = plan.copyTargets.get(sourceKey);
+    if (target !== undefined) return target;
+
+    const { options, entry } = plan;
+    target =
+        plan.renames.get(sourceKey) ??
+        (options.convertNaming
+            ? convertNamingConvention(
+                  sourceKey,
+                  options.convertNaming.from,
+                  options.convertNaming.to
+              )
+            : sourceKey);
+    if (isMemberExcluded(options, sourceKey, target) || hasMemberDecorator(entry, target)) {
+        target = null;
+    }
+
+    plan.copyTargets.set(sourceKey, target);
+    return target;
+}
+
+function hasMemberDecorator(entry: MappingRegistryEntry<any, any>, key: string): boolean {
+    const prototype = entry.destination.prototype;
+    return (
+        Reflect.hasMetadata(MAP_NESTED_METADATA_KEY, prototype, key) ||
+        Reflect.hasMetadata(MAP_PROPERTY_METADATA_KEY, prototype, key) ||
+        Reflect.hasMetadata(MAPPER_SOURCE, prototype, key) ||
+        Reflect.hasMetadata(USE_MAPPER, prototype, key) ||
+        Reflect.hasMetadata(TRANSFORM_METADATA_KEY, prototype, key)
+    );
+}
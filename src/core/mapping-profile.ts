@@ -1,30 +1,56 @@
 import type { Mapper } from './mapper';
-import type { ClassType, MappingConfig, MappingEntryOptions } from './types';
+import type {
+    ClassType,
+    MappingConfig,
+    MappingContext,
+    MappingEntryOptions,
+    MappingSource,
+    PolymorphicMapping,
+    ConvertibleType,
+    TypeConverter
+} from './types';
+import { MappingConfigurationError, MappingNotFoundError } from './errors';
+import { getTypeName } from '../utils/type-check.util';
+import { getPropertyByPath } from '../utils/property-path.util';
+import type { ResolverReference } from './value-resolver';
+import { withReversal } from './reverse-mapping';
+
+/** Reads a source member: a dotted path, which reverse maps write back to, or a function. */
+type SourceAccessor<S> = string | ((source: S) => any);
 
 export class MappingBuilder<S extends object, D extends object> {
     private config: MappingConfig<S, D> = {};
     private options: MappingEntryOptions = {};
+    private baseMaps: Array<[ClassType<any>, ClassType<any>]> = [];
+    private reverseConfig: MappingConfig<D, S> = {};
 
     constructor(
         private mapper: Mapper,
-        private source: ClassType<S>,
+        private source: MappingSource<S>,
         private destination: ClassType<D>
     ) {}
 
-    forMember<K extends keyof D>(destinationKey: K, mapperFn: (source: S) => D[K]): this {
+    /** Maps a member with a function or a `resolver(ResolverClass)` reference. */
+    forMember<K extends keyof D>(
+        destinationKey: K,
+        mapperFn: ((source: S, context: MappingContext) => D[K]) | ResolverReference<S, D, D[K]>
+    ): this {
         this.config[destinationKey] = mapperFn as any;
         return this;
     }
 
     forPath<K extends keyof D>(destinationKey: K, sourcePath: string): this {
-        this.config[destinationKey] = ((source: S) => {
-            const path = sourcePath.split('.');
-            let value: any = source;
-            for (const key of path) {
-                value = value?.[key];
-            }
-            return value;
-        }) as any;
+        this.config[destinationKey] = withReversal(
+            (source: S) => {
+                const path = sourcePath.split('.');
+                let value: any = source;
+                for (const key of path) {
+                    value = value?.[key];
+                }
+                return value;
+            },
+            { sourcePath }
+        ) as any;
         return this;
     }
 
@@ -35,15 +61,15 @@ export class MappingBuilder<S extends object, D extends object> {
 
     forMemberIf<K extends keyof D>(
         destinationKey: K,
-        condition: (source: S) => boolean,
-        trueMapper: (source: S) => D[K],
-        falseMapper?: (source: S) => D[K]
+        condition: (source: S, context: MappingContext) => boolean,
+        trueMapper: (source: S, context: MappingContext) => D[K],
+        falseMapper?: (source: S, context: MappingContext) => D[K]
     ): this {
-        this.config[destinationKey] = ((source: S) => {
-            return condition(source)
-                ? trueMapper(source)
+        this.config[destinationKey] = ((source: S, context: MappingContext) => {
+            return condition(source, context)
+                ? trueMapper(source, context)
                 : falseMapper
-                  ? falseMapper(source)
+                  ? falseMapper(source, context)
                   : undefined;
         }) as any;
         return this;
@@ -51,39 +77,70 @@ export class MappingBuilder<S extends object, D extends object> {
 
     forNestedObject<K extends keyof D>(
         destinationKey: K,
-        sourceProperty: (source: S) => any,
+        sourceProperty: SourceAccessor<S>,
         nestedDestClass: ClassType<any>
     ): this {
-        this.config[destinationKey] = ((source: S) => {
-            const value = sourceProperty(source);
-            if (!value) return undefined;
-            return this.mapper.map(value, nestedDestClass);
-        }) as any;
+        const read = this.accessor(sourceProperty);
+        this.config[destinationKey] = withReversal(
+            (source: S, context?: MappingContext) => {
+                const value = read(source);
+                if (!value) return undefined;
+                return this.mapper.map(value, nestedDestClass, { context });
+            },
+            { sourcePath: this.pathOf(sourceProperty), nestedType: nestedDestClass }
+        ) as any;
         return this;
     }
 
     forNestedArray<K extends keyof D>(
         destinationKey: K,
-        sourceProperty: (source: S) => any[],
+        sourceProperty: SourceAccessor<S>,
         itemDestClass: ClassType<any>
     ): this {
-        this.config[destinationKey] = ((source: S) => {
-            const value = sourceProperty(source);
-            if (!value || !Array.isArray(value)) return [];
-            return this.mapper.mapArray(value, itemDestClass);
-        }) as any;
+        const read = this.accessor(sourceProperty);
+        this.config[destinationKey] = withReversal(
+            (source: S, context?: MappingContext) => {
+                const value = read(source);
+                if (!value || !Array.isArray(value)) return [];
+                return this.mapper.mapArray(value, itemDestClass, { context });
+            },
+            { sourcePath: this.pathOf(sourceProperty), nestedType: itemDestClass }
+        ) as any;
         return this;
     }
 
+    /**
+     * Maps a member through a converter. With a `backward` converter and a source path,
+     * reverse maps convert the member back onto that path; otherwise they skip it.
+     */
     transform<K extends keyof D>(
         destinationKey: K,
-        sourceProperty: (source: S) => any,
-        transformer: (value: any) => D[K]
+        sourceProperty: SourceAccessor<S>,
+        transformer: (value: any) => D[K],
+        backward?: (value: D[K]) => any
     ): this {
-        this.config[destinationKey] = ((source: S) => {
-            const value = sourceProperty(source);
-            return transformer(value);
-        }) as any;
+        const read = this.accessor(sourceProperty);
+        this.config[destinationKey] = withReversal(
+            (source: S) => {
+                const value = read(source);
+                return transformer(value);
+            },
+            backward ? { sourcePath: this.pathOf(sourceProperty), backward } : {}
+        ) as any;
+        return this;
+    }
+
+    /**
+     * Maps a source member explicitly in the reverse map created by `reverseMap()`,
+     * replacing the inverted forward configuration of that member.
+     */
+    forSourceMember<K extends keyof S>(
+        sourceKey: K,
+        mapperFn:
+            | ((destination: D, context: MappingContext) => S[K])
+            | ResolverReference<D, S, S[K]>
+    ): this {
+        this.reverseConfig[sourceKey] = mapperFn as any;
         return this;
     }
 
@@ -109,6 +166,50 @@ export class MappingBuilder<S extends object, D extends object> {
         return this;
     }
 
+    /**
+     * Inherits every member mapping and option of the `baseSource -> baseDestination` map.
+     * Members configured on this builder override the inherited ones.
+     */
+    includeBase<BS extends object, BD extends object>(
+        baseSource: ClassType<BS>,
+        baseDestination: ClassType<BD>
+    ): this {
+        const source = this.source;
+        if (
+            typeof source !== 'function' ||
+            ((source as ClassType) !== baseSource && !(source.prototype instanceof baseSource))
+        ) {
+            throw new MappingConfigurationError(
+                `${getTypeName(source)} does not extend ${baseSource.name}`,
+                { sourceType: getTypeName(source), destinationType: this.destination.name }
+            );
+        }
+        this.baseMaps.push([baseSource, baseDestination]);
+        return this;
+    }
+
+    /**
+     * Dispatches this map to concrete destination classes, e.g. on `source.kind`
+     * or on the source subclass. Every map call for the pair picks the concrete map.
+     */
+    polymorphic(mapping: PolymorphicMapping<S>): this {
+        this.options.polymorphic = mapping;
+        return this;
+    }
+
+    /** Converts values of type `from` mapped onto members of type `to`, for this map only. */
+    convertType<TFrom, TTo>(
+        from: ConvertibleType<TFrom>,
+        to: ConvertibleType<TTo>,
+        convert: TypeConverter<TFrom, TTo>
+    ): this {
+        this.options.typeConverters = [
+            ...(this.options.typeConverters ?? []),
+            { from, to, convert }
+        ];
+        return this;
+    }
+
     withOptions(options: MappingEntryOptions): this {
         this.options = { ...this.options, ...options };
         return this;
@@ -134,44 +235,113 @@ export class MappingBuilder<S extends object, D extends object> {
         return this;
     }
 
-    beforeMap(hook: (source: S) => S | Promise<S>): this {
+    beforeMap(hook: (source: S, context: MappingContext) => S | Promise<S>): this {
         this.options.beforeMap = hook as any;
         return this;
     }
 
-    afterMap(hook: (destination: D, source: S) => D | Promise<D>): this {
+    afterMap(hook: (destination: D, source: S, context: MappingContext) => D | Promise<D>): this {
         this.options.afterMap = hook as any;
         return this;
     }
 
     register(): Mapper {
-        this.mapper.createMap(this.source, this.destination, this.config, this.options);
+        let config: MappingConfig<S, D> = {};
+        let options: MappingEntryOptions = {};
+
+        for (const [baseSource, baseDestination] of this.baseMaps) {
+            const base = this.mapper.getMapping(baseSource, baseDestination);
+            if (!base) throw new MappingNotFoundError(baseSource.name, baseDestination.name);
+            config = { ...config, ...base.config };
+            // Dispatch belongs to the base map only; derived maps are its targets
+            options = this.inheritOptions(options, { ...base.options, polymorphic: undefined });
+        }
+
+        config = { ...config, ...this.config };
+        options = this.inheritOptions(options, this.options);
+
+        this.mapper.createMap(this.source, this.destination, config, options);
         return this.mapper;
     }
 
+    private inheritOptions(
+        base: MappingEntryOptions,
+        override: MappingEntryOptions
+    ): MappingEntryOptions {
+        const merged = { ...base, ...override };
+        if (base.ignore || override.ignore) {
+            merged.ignore = [...(base.ignore ?? []), ...(override.ignore ?? [])];
+        }
+        if (base.include || override.include) {
+            merged.include = [...(base.include ?? []), ...(override.include ?? [])];
+        }
+        if (base.typeConverters || override.typeConverters) {
+            // Later definitions win, so the derived map's converters override the base's
+            merged.typeConverters = [
+                ...(base.typeConverters ?? []),
+                ...(override.typeConverters ?? [])
+            ];
+        }
+        return merged;
+    }
+
     reverseMap(): Mapper {
+        const source = this.source;
+        if (typeof source !== 'function') {
+            throw new MappingConfigurationError('Reverse maps require a class source', {
+                sourceType: getTypeName(source),
+                destinationType: this.destination.name
+            });
+        }
         this.register();
-        this.mapper.createReverseMap(this.source, this.destination);
+        this.mapper.createReverseMap(source, this.destination, this.reverseConfig);
         return this.mapper;
     }
+
+    private accessor(sourceProperty: SourceAccessor<S>): (source: S) => any {
+        return typeof sourceProperty === 'string'
+            ? source => getPropertyByPath(source, sourceProperty)
+            : sourceProperty;
+    }
+
+    private pathOf(sourceProperty: SourceAccessor<S>): string | undefined {
+        return typeof sourceProperty === 'string' ? sourceProperty : undefined;
+    }
 }
 
 export abstract class MappingProfile {
-    constructor(protected mapper: Mapper) {
+    protected mapper!: Mapper;
+
+    /**
+     * Profiles constructed with a mapper configure themselves right away. Profiles created
+     * without one (e.g. by the Nest container) are configured by `mapper.addProfile(profile)`.
+     */
+    constructor(mapper?: Mapper) {
+        if (mapper) mapper.addProfile(this);
+    }
+
+    /** Whether the profile is already configured against a mapper. */
+    get isRegistered(): boolean {
+        return this.mapper !== undefined;
+    }
+
+    /** Configures this profile against `mapper`; called by `Mapper.addProfile`. */
+    registerWith(mapper: Mapper): void {
+        this.mapper = mapper;
         this.configure();
     }
 
     protected abstract configure(): void;
 
-    protected createMap<S extends object, D extends object>(
-        source: ClassType<S>,
+    protected createMap<S extends object, D extends object = any>(
+        source: MappingSource<S>,
         destination: ClassType<D>
     ): MappingBuilder<S, D> {
         return new MappingBuilder(this.mapper, source, destination);
     }
 
-    protected registerMap<S extends object, D extends object>(
-        source: ClassType<S>,
+    protected registerMap<S extends object, D extends object = any>(
+        source: MappingSource<S>,
         destination: ClassType<D>,
         config?: MappingConfig<S, D>,
         options?: MappingEntryOptions
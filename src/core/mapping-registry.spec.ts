@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingConfigurator } from './mapping-config';
+import { MappingConfigurationError } from './errors';
+
+class User {
+    name = 'ann';
+}
+
+/** Two unrelated classes sharing a name, as in two bounded contexts of one app. */
+function createUserDto(prefix: string) {
+    return class UserDto {
+        name = '';
+        readonly context = prefix;
+    };
+}
+
+const BillingUserDto = createUserDto('billing');
+const ShippingUserDto = createUserDto('shipping');
+
+describe('mapping registry', () => {
+    it('keeps maps of same-named classes apart', () => {
+        const mapper = new Mapper();
+        mapper.createMap(User, BillingUserDto, { name: (user: User) => `billing:${user.name}` });
+        mapper.createMap(User, ShippingUserDto, { name: (user: User) => `shipping:${user.name}` });
+
+        const billing = mapper.map(new User(), BillingUserDto);
+        const shipping = mapper.map(new User(), ShippingUserDto);
+        expect(billing).toBeInstanceOf(BillingUserDto);
+        expect(billing.name).toBe('billing:ann');
+        expect(shipping).toBeInstanceOf(ShippingUserDto);
+        expect(shipping.name).toBe('shipping:ann');
+        expect(mapper.getMappings()).toHaveLength(2);
+    });
+
+    it('rejects a second map for the same pair', () => {
+        const mapper = new Mapper();
+        mapper.createMap(User, BillingUserDto);
+
+        expect(() => mapper.createMap(User, BillingUserDto)).toThrow(
+            new MappingConfigurationError('Mapping already registered', {
+                sourceType: 'User',
+                destinationType: 'UserDto'
+            })
+        );
+        expect(() => mapper.createMap(User, ShippingUserDto)).not.toThrow();
+    });
+
+    it('accepts the map again after clear()', () => {
+        const mapper = new Mapper();
+        mapper.createMap(User, BillingUserDto);
+        mapper.clear();
+
+        expect(() => mapper.createMap(User, BillingUserDto)).not.toThrow();
+    });
+
+    it('keys configurator entries by class identity', () => {
+        const configurator = new MappingConfigurator();
+        const billing = { name: () => 'billing' };
+        configurator.register(User, BillingUserDto, billing);
+        configurator.register(User, ShippingUserDto, { name: () => 'shipping' });
+
+        expect(configurator.get(User, BillingUserDto)).toBe(billing);
+    });
+});
@@ -0,0 +1,91 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+
+class Source {
+    a = 'a';
+    b = 'b';
+    c = 'c';
+}
+
+class Destination {
+    a = '';
+    b = '';
+    c = '';
+}
+
+class Row {
+    first_name = 'ann';
+    last_name = 'lee';
+}
+
+class Person {
+    firstName = '';
+    lastName = '';
+}
+
+function createDestination(values: Partial<Destination>): Destination {
+    return Object.assign(new Destination(), values);
+}
+
+describe('per-call options', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper();
+    });
+
+    it('ignore members on top of the map', () => {
+        mapper.createMap(Source, Destination, undefined, { ignore: ['a'] });
+
+        expect(mapper.map(new Source(), Destination, { ignore: ['b'] })).toEqual(
+            createDestination({ c: 'c' })
+        );
+        expect(mapper.map(new Source(), Destination)).toEqual(
+            createDestination({ b: 'b', c: 'c' })
+        );
+    });
+
+    it('include members of maps without an include list', () => {
+        mapper.createMap(Source, Destination);
+
+        expect(mapper.map(new Source(), Destination, { include: ['a'] })).toEqual(
+            createDestination({ a: 'a' })
+        );
+    });
+
+    it('narrow the include list of the map', () => {
+        mapper.createMap(Source, Destination, undefined, { include: ['a', 'b'] });
+
+        expect(mapper.map(new Source(), Destination, { include: ['a'] })).toEqual(
+            createDestination({ a: 'a' })
+        );
+        expect(mapper.map(new Source(), Destination, { include: ['c'] })).toEqual(
+            createDestination({})
+        );
+        expect(mapper.mapArray([new Source()], Destination)).toEqual([
+            createDestination({ a: 'a', b: 'b' })
+        ]);
+    });
+
+    it('convert names for a single call', async () => {
+        mapper.createMap(Row, Person);
+        const convertNaming = { from: 'snake_case', to: 'camelCase' } as const;
+
+        expect(mapper.map(new Row(), Person)).toEqual(new Person());
+        await expect(mapper.mapAsync(new Row(), Person, { convertNaming })).resolves.toEqual(
+            Object.assign(new Person(), { firstName: 'ann', lastName: 'lee' })
+        );
+    });
+
+    it('keep cached results per option set', () => {
+        mapper = new Mapper({ cache: { enabled: true } });
+        mapper.createMap(Source, Destination);
+
+        const source = new Source();
+        const all = mapper.map(source, Destination);
+        const some = mapper.map(source, Destination, { ignore: ['a'] });
+        expect(some).not.toBe(all);
+        expect(some.a).toBe('');
+        expect(mapper.map(source, Destination)).toBe(all);
+    });
+});
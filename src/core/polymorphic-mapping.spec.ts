@@ -0,0 +1,109 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import { MappingError } from './errors';
+import { MapNested } from '../decorators';
+
+class Payment {
+    kind = '';
+    amount = 0;
+}
+
+class CardPayment extends Payment {
+    kind = 'card';
+    last4 = '4242';
+}
+
+class BankPayment extends Payment {
+    kind = 'bank';
+    iban = 'DE00';
+}
+
+class PaymentDto {
+    kind = '';
+    amount = 0;
+}
+
+class CardPaymentDto extends PaymentDto {
+    last4 = '';
+}
+
+class BankPaymentDto extends PaymentDto {
+    iban = '';
+}
+
+class Invoice {
+    payments: Payment[] = [];
+}
+
+class InvoiceDto {
+    @MapNested(() => PaymentDto)
+    payments: PaymentDto[] = [];
+}
+
+function createMapper(onUnknown?: 'fallback' | 'error'): Mapper {
+    const mapper = new Mapper();
+    new MappingBuilder(mapper, Payment, PaymentDto)
+        .polymorphic({
+            discriminator: 'kind',
+            types: { card: CardPaymentDto, bank: BankPaymentDto },
+            onUnknown
+        })
+        .register();
+    new MappingBuilder(mapper, Payment, CardPaymentDto).includeBase(Payment, PaymentDto).register();
+    new MappingBuilder(mapper, Payment, BankPaymentDto).includeBase(Payment, PaymentDto).register();
+    mapper.createMap(Invoice, InvoiceDto);
+    return mapper;
+}
+
+describe('polymorphic maps', () => {
+    const payments = [new CardPayment(), new BankPayment()];
+
+    it('dispatch map and mapArray of heterogeneous arrays on the discriminator', async () => {
+        const mapper = createMapper();
+
+        expect(mapper.map(new CardPayment(), PaymentDto)).toBeInstanceOf(CardPaymentDto);
+        const dtos = mapper.mapArray(payments, PaymentDto);
+        expect(dtos[0]).toEqual(
+            Object.assign(new CardPaymentDto(), { kind: 'card', last4: '4242' })
+        );
+        expect(dtos[1]).toEqual(
+            Object.assign(new BankPaymentDto(), { kind: 'bank', iban: 'DE00' })
+        );
+        expect((await mapper.mapArrayAsync(payments, PaymentDto))[1]).toBeInstanceOf(
+            BankPaymentDto
+        );
+    });
+
+    it('dispatch @MapNested members', () => {
+        const invoice = Object.assign(new Invoice(), { payments });
+        const dto = createMapper().map(invoice, InvoiceDto);
+
+        expect(dto.payments[0]).toBeInstanceOf(CardPaymentDto);
+        expect(dto.payments[1]).toBeInstanceOf(BankPaymentDto);
+    });
+
+    it('dispatch on the source subclass', () => {
+        const mapper = new Mapper();
+        new MappingBuilder(mapper, Payment, PaymentDto)
+            .polymorphic({ types: new Map([[CardPayment, CardPaymentDto]]) })
+            .register();
+        mapper.createMap(CardPayment, CardPaymentDto);
+
+        expect(mapper.map(new CardPayment(), PaymentDto)).toBeInstanceOf(CardPaymentDto);
+        expect(mapper.map(new BankPayment(), PaymentDto)).toBeInstanceOf(PaymentDto);
+    });
+
+    it('fall back to the base map or fail on unknown discriminators', () => {
+        const unknown = Object.assign(new Payment(), { kind: 'cash' });
+
+        const fallback = createMapper().map(unknown, PaymentDto);
+        expect(fallback.constructor).toBe(PaymentDto);
+        expect(() => createMapper('error').map(unknown, PaymentDto)).toThrow(
+            new MappingError('No polymorphic mapping for discriminator "cash"', {
+                sourceType: 'Payment',
+                destinationType: 'PaymentDto'
+            })
+        );
+    });
+});
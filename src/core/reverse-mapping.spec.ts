@@ -0,0 +1,183 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import { resolver } from './value-resolver';
+import type { ValueResolver } from './types';
+import { Mappable, MapNested, MapProperty, Transform, UseMapper } from '../decorators';
+
+class Address {
+    city = '';
+    street = '';
+}
+
+class AddressDto {
+    city = '';
+}
+
+class Line {
+    sku = '';
+}
+
+class LineDto {
+    sku = '';
+}
+
+class Order {
+    id = 0;
+    note: string | null = '';
+    cents = 0;
+    status = 'open';
+    address = new Address();
+    shipping = new Address();
+    lines: Line[] = [];
+}
+
+@Mappable({ skipNulls: true })
+class OrderDto {
+    id = 0;
+    note: string | null = '';
+    total = 0;
+    label = '';
+    shippingCity = '';
+
+    @MapProperty('address.city')
+    city = '';
+
+    @Transform((status: string) => status.toUpperCase())
+    status = '';
+
+    @MapNested(() => LineDto)
+    lines: LineDto[] = [];
+}
+
+class Product {
+    name = 'pen';
+    price = 5;
+    stock = 3;
+}
+
+class PriceResolver implements ValueResolver<Product, ProductDto, number> {
+    resolve(product: Product): number {
+        return product.price * 2;
+    }
+}
+
+class StockResolver implements ValueResolver<Product, ProductDto, number> {
+    resolve(product: Product): number {
+        return product.stock + 1;
+    }
+}
+
+class ProductDto {
+    name = '';
+    price = 0;
+
+    @UseMapper(StockResolver)
+    stock = 0;
+}
+
+class Customer {
+    firstName = '';
+    lastName = '';
+}
+
+class CustomerRow {
+    first_name = '';
+    last_name = '';
+}
+
+function createOrder(): Order {
+    return Object.assign(new Order(), {
+        id: 7,
+        note: 'fragile',
+        cents: 1250,
+        status: 'shipped',
+        address: Object.assign(new Address(), { city: 'Oslo', street: 'Main' }),
+        shipping: Object.assign(new Address(), { city: 'Bergen' }),
+        lines: [Object.assign(new Line(), { sku: 'a-1' })]
+    });
+}
+
+describe('reverse maps', () => {
+    let mapper: Mapper;
+
+    beforeEach(() => {
+        mapper = new Mapper();
+        mapper.createMap(Address, AddressDto);
+        mapper.createMap(Line, LineDto);
+        mapper.createReverseMap(Line, LineDto);
+        new MappingBuilder(mapper, Order, OrderDto)
+            .transform(
+                'total',
+                'cents',
+                cents => cents / 100,
+                total => Math.round(total * 100)
+            )
+            .reverseMap();
+    });
+
+    it('write members back to their source paths and through nested reverse maps', () => {
+        const order = mapper.map(mapper.map(createOrder(), OrderDto), Order);
+
+        expect(order).toBeInstanceOf(Order);
+        expect(order.id).toBe(7);
+        expect(order.cents).toBe(1250);
+        expect(order.address).toBeInstanceOf(Address);
+        expect(order.address.city).toBe('Oslo');
+        expect(order.shipping.city).toBe('Bergen');
+        expect(order.lines).toEqual([Object.assign(new Line(), { sku: 'a-1' })]);
+        expect(order.lines[0]).toBeInstanceOf(Line);
+    });
+
+    it('skip one-way members', () => {
+        const dto = Object.assign(new OrderDto(), { status: 'SHIPPED' });
+        expect(mapper.map(dto, Order).status).toBe('open');
+    });
+
+    it('leave members resolved by value resolvers out', () => {
+        mapper.createMap(Product, ProductDto, { price: resolver(PriceResolver) });
+        mapper.createReverseMap(Product, ProductDto);
+
+        const dto = mapper.map(new Product(), ProductDto);
+        expect(dto).toEqual({ name: 'pen', price: 10, stock: 4 });
+        expect(mapper.map(dto, Product)).toEqual(new Product());
+    });
+
+    it('apply the overrides of forSourceMember', () => {
+        const reversed = new Mapper();
+        new MappingBuilder(reversed, Customer, CustomerRow)
+            .forSourceMember('lastName', row => row.last_name.toUpperCase())
+            .reverseMap();
+
+        const row = Object.assign(new CustomerRow(), { first_name: 'ann', last_name: 'lee' });
+        expect(reversed.map(row, Customer).lastName).toBe('LEE');
+    });
+
+    it('convert names the other way', () => {
+        const reversed = new Mapper();
+        reversed.createMap(Customer, CustomerRow, undefined, {
+            convertNaming: { from: 'camelCase', to: 'snake_case' }
+        });
+        reversed.createReverseMap(Customer, CustomerRow);
+
+        const customer = Object.assign(new Customer(), { firstName: 'ann', lastName: 'lee' });
+        const row = reversed.map(customer, CustomerRow);
+        expect(row).toEqual({ first_name: 'ann', last_name: 'lee' });
+        expect(reversed.map(row, Customer)).toEqual(customer);
+    });
+
+    it('leave the forward destination options and hooks to the forward map', () => {
+        const reversed = new Mapper();
+        reversed.createMap(Address, AddressDto);
+        reversed.createMap(Line, LineDto);
+        reversed.createMap(Order, OrderDto, undefined, {
+            afterMap: dto => Object.assign(dto, { label: 'mapped' })
+        });
+        reversed.createReverseMap(Order, OrderDto);
+
+        const dto = Object.assign(new OrderDto(), { note: null });
+        expect(reversed.map(createOrder(), OrderDto).label).toBe('mapped');
+        expect(reversed.map(dto, Order).note).toBeNull();
+        expect(reversed.map(dto, Order)).not.toHaveProperty('label');
+    });
+});
@@ -0,0 +1,126 @@
+import type { ClassType, MappingContext } from './types';
+import { describeMembers } from './flattening';
+import { setPropertyByPath } from '../utils/property-path.util';
+import { isObject } from '../utils/type-check.util';
+
+/**
+ * How `createReverseMap` inverts a member function of the forward map. Functions without
+ * one are reversed as same-named copies; functions with one but no `sourcePath` are skipped.
+ */
+export interface MemberReversal {
+    /** Dotted source path the forward member reads */
+    sourcePath?: string;
+    /** Converts the destination value back to the source value */
+    backward?: (value: any) => unknown;
+    /** Destination class of a nested object or array member, mapped back by its reverse map */
+    nestedType?: ClassType;
+}
+
+const MEMBER_REVERSAL = Symbol('MEMBER_REVERSAL');
+
+/** Tags a member function with how it is reversed. */
+export function withReversal<F extends (...args: any[]) => any>(
+    fn: F,
+    reversal: MemberReversal
+): F {
+    (fn as any)[MEMBER_REVERSAL] = reversal;
+    return fn;
+}
+
+export function getReversal(fn: unknown): MemberReversal | undefined {
+    return typeof fn === 'function' ? (fn as any)[MEMBER_REVERSAL] : undefined;
+}
+
+/**
+ * A source member a reverse map writes: its path from the source root and the function
+ * reading its value from the reversed (destination) object.
+ */
+export interface ReversedMember {
+    path: readonly string[];
+    read: (source: any, context: MappingContext) => unknown;
+}
+
+/**
+ * Member functions of a reverse map writing each top-level source member. Members reached
+ * through a path are written into the member's current value on the destination (mapInto),
+ * or a new instance of its class, or a plain object; one whose values are all undefined
+ * keeps its current value.
+ */
+export function createMemberWriters(
+    type: ClassType,
+    members: readonly ReversedMember[]
+): Map<string, (source: any, context: MappingContext) => unknown> {
+    const groups = new Map<string, ReversedMember[]>();
+    for (const { path, read } of members) {
+        const group = groups.get(path[0]) ?? [];
+        group.push({ path: path.slice(1), read });
+        groups.set(path[0], group);
+    }
+
+    const memberTypes = describeMembers(type);
+    const writers = new Map<string, (source: any, context: MappingContext) => unknown>();
+    for (const [member, group] of groups) {
+        // A member written as a whole, and nothing below it, needs no container
+        writers.set(
+            member,
+            group.every(({ path }) => !path.length)
+                ? group[group.length - 1].read
+                : createNestedWriter(member, memberTypes.get(member), group)
+        );
+    }
+    return writers;
+}
+
+function createNestedWriter(
+    member: string,
+    type: ClassType | undefined,
+    members: readonly ReversedMember[]
+) {
+    // Classes of the intermediate members of each path, resolved once
+    const writes = [...members]
+        .sort((a, b) => a.path.length - b.path.length)
+        .map(({ path, read }) => ({ path, read, types: resolvePathTypes(type, path) }));
+
+    return (source: any, context: MappingContext): unknown => {
+        const current = (context?.destination as any)?.[member];
+        let target: any = isObject(current) ? current : undefined;
+        let assigned = false;
+
+        for (const { path, read, types } of writes) {
+            const value = read(source, context);
+            if (value === undefined) continue;
+            if (!path.length) {
+                target = value;
+            } else {
+                if (!target) target = type ? new type() : {};
+                let node = target;
+                for (const [index, part] of path.slice(0, -1).entries()) {
+                    if (!isObject(node[part]) && types[index]) node[part] = new types[index]!();
+                    node = node[part];
+                    if (!isObject(node)) break;
+                }
+                setPropertyByPath(target, path.join('.'), value);
+            }
+            assigned = true;
+        }
+        return assigned ? target : current;
+    };
+}
+
+function resolvePathTypes(type: ClassType | undefined, path: readonly string[]) {
+    const types: Array<ClassType | undefined> = [];
+    for (const part of path.slice(0, -1)) {
+        type = type && describeMembers(type).get(part);
+        types.push(type);
+    }
+    return types;
+}
+
+/** Class of the member at `path` of a source class, when known. */
+export function getPathType(type: ClassType, path: readonly string[]): ClassType | undefined {
+    let current: ClassType | undefined = type;
+    for (const part of path) {
+        current = current && describeMembers(current).get(part);
+    }
+    return current;
+}
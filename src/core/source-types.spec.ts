@@ -0,0 +1,91 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import { MappingConfigurationError, MappingNotFoundError } from './errors';
+
+interface RawRow {
+    id: number;
+    first_name: string;
+    last_name: string;
+}
+
+class User {
+    id = 0;
+    firstName = '';
+    lastName = '';
+}
+
+class UserDto {
+    id = 0;
+    fullName = '';
+}
+
+const row: RawRow = { id: 7, first_name: 'Ann', last_name: 'Lee' };
+
+describe('source types', () => {
+    it('map plain objects through a string token', () => {
+        const mapper = new Mapper();
+        mapper.createMap<RawRow>('user-row', UserDto, {
+            fullName: (source: RawRow) => `${source.first_name} ${source.last_name}`
+        });
+
+        const dto = mapper.map(row, UserDto, { sourceType: 'user-row' });
+        expect(dto).toBeInstanceOf(UserDto);
+        expect(dto).toEqual(Object.assign(new UserDto(), { id: 7, fullName: 'Ann Lee' }));
+        expect(mapper.mapArray([row, row], UserDto, { sourceType: 'user-row' })).toHaveLength(2);
+        expect(mapper.getMappings()).toEqual([{ source: 'user-row', destination: 'UserDto' }]);
+    });
+
+    it('map plain objects through a symbol token registered with MappingBuilder', async () => {
+        const userRow = Symbol('user-row');
+        const mapper = new Mapper();
+        new MappingBuilder<RawRow, UserDto>(mapper, userRow, UserDto)
+            .forMember('fullName', source => source.last_name.toUpperCase())
+            .register();
+
+        const dto = await mapper.mapAsync(row, UserDto, { sourceType: userRow });
+        expect(dto.fullName).toBe('LEE');
+    });
+
+    it('map plain objects with the map of a class sourceType', () => {
+        const mapper = new Mapper();
+        mapper.createMap(User, UserDto, {
+            fullName: (user: User) => `${user.firstName} ${user.lastName}`
+        });
+        const body = { id: 3, firstName: 'Bo', lastName: 'Kim' };
+
+        expect(mapper.map(body, UserDto, { sourceType: User }).fullName).toBe('Bo Kim');
+        expect(() => mapper.map(body, UserDto)).toThrow(
+            new MappingNotFoundError('Object', 'UserDto')
+        );
+    });
+
+    it('report the token of unregistered sources', () => {
+        const mapper = new Mapper();
+
+        expect(() => mapper.map(row, UserDto, { sourceType: 'user-row' })).toThrow(
+            new MappingNotFoundError('user-row', 'UserDto')
+        );
+        expect(() => mapper.map(row, UserDto, { sourceType: Symbol('legacy-row') })).toThrow(
+            new MappingNotFoundError('legacy-row', 'UserDto')
+        );
+    });
+
+    it('reject reverse maps of token sources', () => {
+        const builder = new MappingBuilder<RawRow, UserDto>(new Mapper(), 'user-row', UserDto);
+
+        expect(() => builder.reverseMap()).toThrow(
+            new MappingConfigurationError('Reverse maps require a class source', {
+                sourceType: 'user-row',
+                destinationType: 'UserDto'
+            })
+        );
+    });
+
+    it('skip unmapped-member validation for token sources', () => {
+        const mapper = new Mapper();
+        mapper.createMap('user-row', UserDto);
+
+        expect(() => mapper.assertConfigurationIsValid()).not.toThrow();
+    });
+});
@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingBuilder } from './mapping-profile';
+import { AutoMap, Transform } from '../decorators';
+
+class Money {
+    constructor(readonly cents: number) {}
+}
+
+class Euro extends Money {}
+
+class Order {
+    createdAt = new Date('2024-05-01T10:00:00.000Z');
+    total: Money = new Euro(1250);
+    quantity = 3;
+    reference = 42n;
+    note = new Date('2024-05-02T00:00:00.000Z');
+}
+
+class OrderDto {
+    @AutoMap()
+    createdAt: string = '';
+
+    @AutoMap()
+    total: number = 0;
+
+    @AutoMap()
+    quantity: string = '';
+
+    @AutoMap()
+    reference: number = 0;
+
+    // Undecorated members carry no design:type, so converters never apply
+    note: unknown = undefined;
+}
+
+const toIsoString = (date: Date) => date.toISOString();
+
+describe('type converters', () => {
+    it('convert members by destination design:type and source value type', () => {
+        const mapper = new Mapper()
+            .addTypeConverter(Date, String, toIsoString)
+            .addTypeConverter(Money, Number, (money: Money) => money.cents / 100)
+            .addTypeConverter(Number, String, (value: number) => value.toFixed(1))
+            .addTypeConverter(BigInt, Number, (value: bigint) => Number(value));
+        mapper.createMap(Order, OrderDto);
+
+        const dto = mapper.map(new Order(), OrderDto);
+        expect(dto.createdAt).toBe('2024-05-01T10:00:00.000Z');
+        expect(dto.total).toBe(12.5);
+        expect(dto.quantity).toBe('3.0');
+        expect(dto.reference).toBe(42);
+        expect(dto.note).toBeInstanceOf(Date);
+    });
+
+    it('pass the mapping context to converters', () => {
+        const mapper = new Mapper().addTypeConverter(Date, String, (date: Date, context) =>
+            date.toLocaleDateString(context.extraArgs?.locale, { timeZone: 'UTC' })
+        );
+        mapper.createMap(Order, OrderDto);
+
+        const dto = mapper.map(new Order(), OrderDto, { extraArgs: { locale: 'de-DE' } });
+        expect(dto.createdAt).toBe('1.5.2024');
+    });
+
+    it('apply converters added after the map was used', () => {
+        const mapper = new Mapper();
+        mapper.createMap(Order, OrderDto);
+        expect(mapper.map(new Order(), OrderDto).createdAt).toBeInstanceOf(Date);
+
+        mapper.addTypeConverter(Date, String, toIsoString);
+        expect(mapper.map(new Order(), OrderDto).createdAt).toBe('2024-05-01T10:00:00.000Z');
+    });
+
+    it('let per-map converters override global ones for that map only', () => {
+        class OrderSummaryDto {
+            @AutoMap()
+            createdAt: string = '';
+        }
+
+        const mapper = new Mapper().addTypeConverter(Date, String, toIsoString);
+        mapper.createMap(Order, OrderDto, undefined, {
+            typeConverters: [{ from: Date, to: String, convert: () => 'from options' }]
+        });
+        new MappingBuilder(mapper, Order, OrderSummaryDto)
+            .convertType(Date, String, (date: Date) => date.toISOString().slice(0, 10))
+            .register();
+
+        expect(mapper.map(new Order(), OrderDto).createdAt).toBe('from options');
+        expect(mapper.map(new Order(), OrderSummaryDto).createdAt).toBe('2024-05-01');
+    });
+
+    it('rank member functions and @Transform above converters', () => {
+        class AuditDto {
+            @AutoMap()
+            createdAt: string = '';
+
+            @Transform((value: Date) => `day ${value.getUTCDate()}`)
+            note: string = '';
+        }
+
+        const mapper = new Mapper().addTypeConverter(Date, String, toIsoString);
+        mapper.createMap(Order, AuditDto, {
+            createdAt: (order: Order) => order.createdAt.getUTCFullYear().toString()
+        });
+
+        const dto = mapper.map(new Order(), AuditDto);
+        expect(dto.createdAt).toBe('2024');
+        expect(dto.note).toBe('day 2');
+    });
+});
@@ -1,5 +1,13 @@
+import type { ResolverReference } from './value-resolver';
+
 export type ClassType<T = any> = new (...args: any[]) => T;
 
+/**
+ * Source of a map: a class, or a string/symbol token naming a plain-object shape
+ * (request bodies, parsed JSON, raw rows, ...).
+ */
+export type MappingSource<S = any> = ClassType<S> | string | symbol;
+
 /**
  * Defines a mapping function for a single destination property.
  */
@@ -12,14 +20,27 @@ export type MapperFunction<S, D, K extends keyof D = keyof D> = (
  * Property-level mapping configuration.
  */
 export type MappingConfig<S extends object, D extends object> = {
-    [K in keyof D]?: MapperFunction<S, D, K>;
+    [K in keyof D]?: MapperFunction<S, D, K> | ResolverReference<S, D, D[K]>;
 };
 
+/**
+ * Class-based member resolver, instantiated through the mapper's resolver factory so it can
+ * depend on injected services. Async resolvers require `mapAsync`.
+ */
+export interface ValueResolver<S = any, D = any, T = any> {
+    resolve(source: S, destination: D, context: MappingContext): T | Promise<T>;
+}
+
+/**
+ * Creates value resolver instances.
+ */
+export type ResolverFactory = (type: ClassType<ValueResolver>) => ValueResolver;
+
 /**
  * Core registry entry for source-destination type mapping.
  */
 export interface MappingRegistryEntry<S extends object, D extends object> {
-    source: ClassType<S>;
+    source: MappingSource<S>;
     destination: ClassType<D>;
     config?: MappingConfig<S, D>;
     options?: MappingEntryOptions<S, D>;
@@ -39,9 +60,13 @@ export interface MappingEntryOptions<S = any, D = any> {
     strict?: boolean;
     /** Custom naming convention handler */
     namingConvention?: NamingConvention;
+    /** Convert source property names before copying them onto the destination */
+    convertNaming?: TransformOptions['convertNaming'];
+    /** Also copy source members onto declared destination members the instance does not hold */
+    autoMapAll?: boolean;
     /** Lifecycle hooks */
-    beforeMap?: (source: S) => S | Promise<S>;
-    afterMap?: (destination: D, source: S) => D | Promise<D>;
+    beforeMap?: (source: S, context: MappingContext) => S | Promise<S>;
+    afterMap?: (destination: D, source: S, context: MappingContext) => D | Promise<D>;
     /** Per-map cache configuration override */
     cache?: Partial<CacheConfig>;
     /** Ignore specific properties during mapping */
@@ -50,6 +75,47 @@ export interface MappingEntryOptions<S = any, D = any> {
     include?: Array<string | keyof D | symbol>;
     /** Deep clone nested objects before mapping */
     deepCloneBeforeMap?: boolean;
+    /** Map each source instance once per top-level call, closing reference cycles */
+    preserveReferences?: boolean;
+    /** Nested mappings deeper than this are left undefined */
+    maxDepth?: number;
+    /** Dispatch to a concrete destination class based on the source */
+    polymorphic?: PolymorphicMapping<S>;
+    /** Type converters of this map; they take precedence over `Mapper.addTypeConverter` ones */
+    typeConverters?: TypeConverterDefinition[];
+}
+
+/**
+ * Runtime type a type converter is registered for: a class, or the wrapper of a
+ * primitive (`String`, `Number`, `Boolean`, `BigInt`).
+ */
+export type ConvertibleType<T = any> = ClassType<T> | BigIntConstructor;
+
+/**
+ * Converts a source value to the type of the destination member it is mapped to.
+ */
+export type TypeConverter<S = any, D = any> = (value: S, context: MappingContext) => D;
+
+/**
+ * Type converter applied to every member whose destination `design:type` is `to`
+ * and whose source value is an instance of `from`.
+ */
+export interface TypeConverterDefinition<S = any, D = any> {
+    from: ConvertibleType<S>;
+    to: ConvertibleType<D>;
+    convert: TypeConverter<S, D>;
+}
+
+/**
+ * Polymorphic dispatch of a base map to concrete destination classes.
+ */
+export interface PolymorphicMapping<S = any> {
+    /** Source property or function yielding the discriminator; omit to dispatch on source subclass */
+    discriminator?: keyof S | ((source: S) => unknown);
+    /** Discriminator value (or source subclass) -> concrete destination class */
+    types: Map<unknown, ClassType> | Record<string, ClassType>;
+    /** Unmatched discriminators map with the base map ('fallback', default) or throw ('error') */
+    onUnknown?: 'fallback' | 'error';
 }
 
 /**
@@ -69,7 +135,16 @@ export interface MappingContext {
     destination?: unknown;
     parent?: MappingContext;
     depth?: number;
+    /** Effective options of the current map call (entry options plus per-call TransformOptions) */
     options?: Record<string, any>;
+    /** Per-call arguments supplied to the top-level map call, shared by nested maps */
+    extraArgs?: Record<string, any>;
+    /** Identity table shared by every nested map of one top-level call (preserveReferences) */
+    references?: Map<object, Map<ClassType, unknown>>;
+    /** Depth limit of the top-level call, shared by every nested map (maxDepth) */
+    maxDepth?: number;
+    /** Set while mapping onto an existing destination (mapInto) */
+    merge?: { arrays: ArrayMergePolicy };
 }
 
 /**
@@ -95,6 +170,31 @@ export interface TransformOptions {
     };
 }
 
+/**
+ * Options accepted by a single map call.
+ */
+export interface MapOptions extends TransformOptions {
+    /** Context of the enclosing mapping; the call runs as its child */
+    context?: MappingContext;
+    /** Request-scoped data exposed to resolvers, transformers and hooks as `context.extraArgs` */
+    extraArgs?: Record<string, any>;
+    /** Registered source to map from instead of `source.constructor`, e.g. a token for plain objects */
+    sourceType?: MappingSource;
+}
+
+/**
+ * How `mapInto` merges arrays of `@MapNested` items onto the existing destination array.
+ */
+export type ArrayMergePolicy = 'replace' | 'append' | { mergeBy: string };
+
+/**
+ * Options accepted by `mapInto`.
+ */
+export interface MapIntoOptions extends MapOptions {
+    /** Array merge policy for `@MapNested` members (default 'replace') */
+    arrays?: ArrayMergePolicy;
+}
+
 /**
  * Enhanced result of a mapping operation, with metadata.
  */
@@ -121,17 +221,6 @@ export interface ValidationRule<T = any> {
     message: string;
 }
 
-/**
- * Detailed mapping error object.
- */
-export interface MappingError {
-    sourceType: string;
-    destinationType: string;
-    property?: string;
-    message: string;
-    originalError?: Error;
-}
-
 /**
  * Cache configuration options for mappers.
  * Allows custom strategy implementations (e.g., Redis, LRU).
@@ -140,13 +229,47 @@ export interface CacheConfig {
     enabled?: boolean;
     strategy?: 'memory' | 'lru' | 'redis';
     ttlMs?: number; // TTL in milliseconds
+    /** Entries kept by the built-in LRU store before evicting (default 1000) */
+    maxSize?: number;
+    /**
+     * Derives a stable key from the source (e.g. its id) so re-fetched copies of the same
+     * record hit the cache. Without it, results are cached per source instance.
+     */
+    key?: (source: any) => string | number | undefined;
+    /** Key prefix of the map's entries (default `Source->Destination#id`, unique per map) */
+    namespace?: string;
+    /** External store for keyed entries; required by the 'redis' strategy */
+    adapter?: MappingCacheAdapter;
     [k: string]: any; // Adapter-specific configuration
 }
 
+/**
+ * Store behind keyed cache entries. Methods may return promises (e.g. Redis);
+ * a synchronous `map` call treats a pending read as a miss.
+ */
+export interface MappingCacheAdapter {
+    get(key: string): unknown | Promise<unknown>;
+    set(key: string, value: unknown, ttlMs?: number): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    /** Removes every entry whose key starts with `prefix` */
+    deletePrefix(prefix: string): void | Promise<void>;
+    clear(): void | Promise<void>;
+}
+
+/**
+ * Cache lookup counters.
+ */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+}
+
 /**
  * Mapper constructor options.
  */
 export interface MapperConstructorOptions {
     globalOptions?: MappingEntryOptions;
     cache?: CacheConfig;
+    /** Instantiates `ValueResolver` classes (default: `new type()`) */
+    resolverFactory?: ResolverFactory;
 }
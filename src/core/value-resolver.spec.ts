@@ -0,0 +1,61 @@
+import 'reflect-metadata';
+import { Mapper } from './mapper';
+import { MappingConfigurationError } from './errors';
+import { resolver } from './value-resolver';
+import type { ValueResolver } from './types';
+
+class Product {
+    price = 5;
+}
+
+class ProductDto {
+    price = 0;
+}
+
+class DoublePriceResolver implements ValueResolver<Product, ProductDto, number> {
+    resolve(source: Product): number {
+        return source.price * 2;
+    }
+}
+
+class AsyncPriceResolver implements ValueResolver<Product, ProductDto, number> {
+    resolve(source: Product): Promise<number> {
+        return Promise.resolve(source.price * 2);
+    }
+}
+
+describe('value resolvers', () => {
+    it('resolve members through the resolver factory', () => {
+        const created: string[] = [];
+        const mapper = new Mapper({
+            resolverFactory: type => {
+                created.push(type.name);
+                return new type();
+            }
+        });
+        mapper.createMap(Product, ProductDto, { price: resolver(DoublePriceResolver) });
+
+        expect(mapper.map(new Product(), ProductDto).price).toBe(10);
+        expect(mapper.map(new Product(), ProductDto).price).toBe(10);
+        expect(created).toEqual(['DoublePriceResolver']);
+    });
+
+    it('resolve promises with mapAsync', async () => {
+        const mapper = new Mapper();
+        mapper.createMap(Product, ProductDto, { price: resolver(AsyncPriceResolver) });
+
+        await expect(mapper.mapAsync(new Product(), ProductDto)).resolves.toEqual({ price: 10 });
+    });
+
+    it('fail synchronous maps instead of storing a promise', () => {
+        const mapper = new Mapper();
+        mapper.createMap(Product, ProductDto, {
+            price: resolver(AsyncPriceResolver)
+        });
+
+        expect(() => mapper.map(new Product(), ProductDto)).toThrow(MappingConfigurationError);
+        expect(() => mapper.map(new Product(), ProductDto)).toThrow(
+            'Mapping Error [Product → ProductDto] at price: Value resolves asynchronously; use mapAsync'
+        );
+    });
+});
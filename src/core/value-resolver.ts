@@ -0,0 +1,18 @@
+import type { ClassType, ValueResolver } from './types';
+
+/**
+ * Member configuration that resolves the value through an instance of a `ValueResolver`
+ * class, created by the mapper's resolver factory (the Nest container inside AutomapperModule).
+ */
+export class ResolverReference<S = any, D = any, T = any> {
+    constructor(readonly type: ClassType<ValueResolver<S, D, T>>) {}
+}
+
+/**
+ * Uses a resolver class for a member: `forMember('price', resolver(PriceResolver))`.
+ */
+export function resolver<S = any, D = any, T = any>(
+    type: ClassType<ValueResolver<S, D, T>>
+): ResolverReference<S, D, T> {
+    return new ResolverReference(type);
+}
@@ -0,0 +1,162 @@
+import 'reflect-metadata';
+import { Mapper } from '../core/mapper';
+import { MappingConfigurationError } from '../core/errors';
+import type { MappingContext, ValueResolver } from '../core/types';
+import {
+    AutoMap,
+    MapFrom,
+    MapTo,
+    UseMapper,
+    getAutoMapMetadata,
+    getMapperMetadata
+} from './automap.decorator';
+
+class Address {
+    city = 'Oslo';
+}
+
+class AddressDto {
+    @AutoMap()
+    city: string = '';
+}
+
+class User {
+    @MapTo('fullName')
+    name = 'Ann Lee';
+
+    nick = 'ann';
+    profile = { address: new Address(), email: 'ann@example.com' };
+}
+
+class AvatarUrlResolver implements ValueResolver<User, UserDto, string> {
+    resolve(user: User): string {
+        return `/avatars/${user.nick}.png`;
+    }
+}
+
+class UserDto {
+    @AutoMap()
+    fullName: string = '';
+
+    @AutoMap({ name: 'nick' })
+    handle: string = '';
+
+    @MapFrom('profile.email')
+    email: string = '';
+
+    @MapFrom('profile.address')
+    @MapTo(AddressDto)
+    home?: AddressDto;
+
+    @UseMapper(AvatarUrlResolver)
+    avatarUrl: string = '';
+}
+
+describe('mapping decorators', () => {
+    it('drive the plan of a map', () => {
+        const mapper = new Mapper();
+        mapper.createMap(User, UserDto);
+        mapper.createMap(Address, AddressDto);
+
+        const dto = mapper.map(new User(), UserDto);
+        expect(dto.fullName).toBe('Ann Lee');
+        expect(dto.handle).toBe('ann');
+        expect(dto.email).toBe('ann@example.com');
+        expect(dto.home).toBeInstanceOf(AddressDto);
+        expect(dto.home?.city).toBe('Oslo');
+        expect(dto.avatarUrl).toBe('/avatars/ann.png');
+        expect(() => mapper.assertConfigurationIsValid()).not.toThrow();
+    });
+
+    it('map @MapFrom(SourceClass) members to their declared type', () => {
+        class Order {
+            shipTo = Object.assign(new Address(), { city: 'Bergen' });
+        }
+
+        class OrderDto {
+            @MapFrom(Address)
+            shipTo?: AddressDto;
+        }
+
+        const mapper = new Mapper();
+        mapper.createMap(Order, OrderDto);
+        mapper.createMap(Address, AddressDto);
+
+        const dto = mapper.map(new Order(), OrderDto);
+        expect(dto.shipTo).toBeInstanceOf(AddressDto);
+        expect(dto.shipTo?.city).toBe('Bergen');
+    });
+
+    it('require @MapTo when the type of a @MapFrom(SourceClass) member is unknown', () => {
+        class Order {
+            shipTo = new Address();
+        }
+
+        class OrderDto {
+            @MapFrom(Address)
+            shipTo: unknown;
+        }
+
+        const mapper = new Mapper();
+        mapper.createMap(Order, OrderDto);
+
+        expect(() => mapper.map(new Order(), OrderDto)).toThrow(
+            new MappingConfigurationError(
+                'Cannot infer the destination class of OrderDto.shipTo; add @MapTo(DestinationClass)',
+                { sourceType: 'Order', destinationType: 'OrderDto', path: 'shipTo' }
+            )
+        );
+    });
+
+    it('build the whole destination with a class-level @UseMapper', async () => {
+        class UserCardBuilder implements ValueResolver<User, UserCardDto> {
+            resolve(user: User, card: UserCardDto, context: MappingContext): UserCardDto {
+                card.title = `${user.name} (${context.extraArgs?.role})`;
+                return card;
+            }
+        }
+
+        @UseMapper(UserCardBuilder)
+        class UserCardDto {
+            @AutoMap()
+            title: string = '';
+
+            @AutoMap()
+            nick: string = '';
+        }
+
+        const mapper = new Mapper();
+        mapper.createMap(User, UserCardDto);
+        const options = { extraArgs: { role: 'admin' } };
+
+        const card = mapper.map(new User(), UserCardDto, options);
+        expect(card).toEqual(Object.assign(new UserCardDto(), { title: 'Ann Lee (admin)' }));
+        await expect(mapper.mapAsync(new User(), UserCardDto, options)).resolves.toEqual(card);
+    });
+
+    it('are reported by getAutoMapMetadata and getMapperMetadata', () => {
+        expect(getAutoMapMetadata(UserDto)).toEqual({
+            fullName: { propertyKey: 'fullName', name: 'fullName', ignore: false },
+            handle: { propertyKey: 'handle', name: 'nick', ignore: false },
+            email: { propertyKey: 'email', name: 'email', ignore: false },
+            home: { propertyKey: 'home', name: 'home', ignore: false },
+            avatarUrl: { propertyKey: 'avatarUrl', name: 'avatarUrl', ignore: false }
+        });
+        expect(getMapperMetadata(UserDto)).toEqual({
+            useMapper: undefined,
+            sources: { email: 'profile.email', home: 'profile.address' },
+            destinations: { home: AddressDto },
+            resolvers: { avatarUrl: AvatarUrlResolver }
+        });
+        expect(getMapperMetadata(User).destinations).toEqual({ name: 'fullName' });
+    });
+
+    it('reject @MapFrom and @MapTo without an argument', () => {
+        expect(() => MapFrom('')(UserDto.prototype, 'email')).toThrow(
+            '@MapFrom requires a source property or class type'
+        );
+        expect(() => MapTo('')(User.prototype, 'name')).toThrow(
+            '@MapTo requires a destination property or class type'
+        );
+    });
+});
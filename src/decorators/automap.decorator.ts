@@ -1,36 +1,136 @@
 import 'reflect-metadata';
+import type { ClassType, MappingContext, ValueResolver } from '../core/types';
 
 export const AUTO_MAP_METADATA_KEY = Symbol('AUTO_MAP_METADATA');
 export const MAP_PROPERTY_METADATA_KEY = Symbol('MAP_PROPERTY_METADATA');
 export const MAP_NESTED_METADATA_KEY = Symbol('MAP_NESTED_METADATA');
 export const TRANSFORM_METADATA_KEY = Symbol('TRANSFORM_METADATA');
+/** Value resolver class of a member, or of the whole destination on the class */
+export const USE_MAPPER = Symbol.for('USE_MAPPER');
+/** Registered source a nested member is mapped from */
+export const MAPPER_SOURCE = Symbol('MAPPER_SOURCE');
+/** Class-level table: source member -> destination member it is copied to */
+export const MAPPER_DESTINATION = Symbol('MAPPER_DESTINATION');
+
+export interface AutoMapOptions {
+    /** Source member to read, when it is named differently */
+    name?: string;
+    ignore?: boolean;
+    /** Destination class of a nested member, as with `@MapNested` */
+    type?: () => ClassType<any>;
+}
+
+/**
+ * Records a decorated member in the class-level member table the mapper iterates.
+ * Inherited members are copied so subclasses never mutate their parent's table.
+ */
+function registerMember(target: any, propertyKey: string, metadata?: Record<string, any>) {
+    const members = { ...(Reflect.getMetadata(AUTO_MAP_METADATA_KEY, target.constructor) || {}) };
+    const defaults = { propertyKey, name: propertyKey, ignore: false };
+    members[propertyKey] = metadata ?? members[propertyKey] ?? defaults;
+    Reflect.defineMetadata(AUTO_MAP_METADATA_KEY, members, target.constructor);
+}
+
+/**
+ * Marks a member for mapping. `@AutoMap(AddressDto)` or `@AutoMap(() => AddressDto)`
+ * maps it as a nested member.
+ */
+export function AutoMap(optionsOrType?: AutoMapOptions | ClassType<any> | (() => ClassType<any>)) {
+    const options: AutoMapOptions =
+        typeof optionsOrType === 'function'
+            ? {
+                  // Classes have a prototype, type thunks (arrow functions) do not
+                  type: optionsOrType.prototype
+                      ? () => optionsOrType as ClassType<any>
+                      : (optionsOrType as () => ClassType<any>)
+              }
+            : (optionsOrType ?? {});
 
-export function AutoMap(options?: { name?: string; ignore?: boolean }) {
     return (target: any, propertyKey: string) => {
         const metadata = {
             propertyKey,
-            name: options?.name || propertyKey,
-            ignore: options?.ignore || false
+            name: options.name || propertyKey,
+            ignore: options.ignore || false
         };
         Reflect.defineMetadata(AUTO_MAP_METADATA_KEY, metadata, target, propertyKey);
+        if (options.type) {
+            Reflect.defineMetadata(MAP_NESTED_METADATA_KEY, options.type, target, propertyKey);
+        }
+        registerMember(target, propertyKey, metadata);
+    };
+}
+
+/**
+ * Reads a destination member from a source path (`'profile.firstName'`), or maps it
+ * as a nested member from a registered source class or token.
+ */
+export function MapFrom(source: string | ClassType<any> | symbol) {
+    return (target: any, propertyKey: string) => {
+        if (!source) {
+            throw new Error('@MapFrom requires a source property or class type');
+        }
+        if (typeof source === 'string') {
+            Reflect.defineMetadata(MAP_PROPERTY_METADATA_KEY, source, target, propertyKey);
+        } else {
+            Reflect.defineMetadata(MAPPER_SOURCE, source, target, propertyKey);
+        }
+        registerMember(target, propertyKey);
+    };
+}
+
+/**
+ * On a destination member, maps it as a nested member to `destination`. On a source
+ * member, copies it to the destination member named `destination`.
+ */
+export function MapTo(destination: string | ClassType<any>) {
+    return (target: any, propertyKey: string) => {
+        if (!destination) {
+            throw new Error('@MapTo requires a destination property or class type');
+        }
+        if (typeof destination === 'string') {
+            const copyTargets = { ...Reflect.getMetadata(MAPPER_DESTINATION, target.constructor) };
+            copyTargets[propertyKey] = destination;
+            Reflect.defineMetadata(MAPPER_DESTINATION, copyTargets, target.constructor);
+        } else {
+            Reflect.defineMetadata(MAP_NESTED_METADATA_KEY, () => destination, target, propertyKey);
+            registerMember(target, propertyKey);
+        }
+    };
+}
+
+/**
+ * Resolves a destination member, or on a class the whole destination, with a
+ * `ValueResolver` class created by the mapper's resolver factory.
+ */
+export function UseMapper(resolverType: ClassType<ValueResolver>) {
+    return (target: any, propertyKey?: string | symbol) => {
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(USE_MAPPER, resolverType, target);
+            return;
+        }
+        Reflect.defineMetadata(USE_MAPPER, resolverType, target, propertyKey);
+        registerMember(target, propertyKey as string);
     };
 }
 
 export function MapProperty(sourcePath: string) {
     return (target: any, propertyKey: string) => {
         Reflect.defineMetadata(MAP_PROPERTY_METADATA_KEY, sourcePath, target, propertyKey);
+        registerMember(target, propertyKey);
     };
 }
 
 export function MapNested(type: () => any) {
     return (target: any, propertyKey: string) => {
         Reflect.defineMetadata(MAP_NESTED_METADATA_KEY, type, target, propertyKey);
+        registerMember(target, propertyKey);
     };
 }
 
-export function Transform(transformer: (value: any, obj: any) => any) {
+export function Transform(transformer: (value: any, obj: any, context?: MappingContext) => any) {
     return (target: any, propertyKey: string) => {
         Reflect.defineMetadata(TRANSFORM_METADATA_KEY, transformer, target, propertyKey);
+        registerMember(target, propertyKey);
     };
 }
 
@@ -85,3 +185,45 @@ export function Validate(validator: (value: any) => boolean, errorMessage?: stri
         });
     };
 }
+
+/**
+ * Member table of a class, as iterated by the mapper.
+ */
+export function getAutoMapMetadata(
+    target: ClassType<any>
+): Record<string, { propertyKey: string; name: string; ignore: boolean }> {
+    return Reflect.getMetadata(AUTO_MAP_METADATA_KEY, target) || {};
+}
+
+/**
+ * Mapping decorators of a class as the mapper reads them: the class resolver, the source
+ * path or type of each member and the nested destination or copy target of each member.
+ */
+export function getMapperMetadata(target: ClassType<any>) {
+    const sources: Record<string, string | ClassType<any> | symbol> = {};
+    const destinations: Record<string, string | ClassType<any>> = {
+        ...Reflect.getMetadata(MAPPER_DESTINATION, target)
+    };
+    const resolvers: Record<string, ClassType<ValueResolver>> = {};
+    const prototype = target.prototype;
+
+    for (const key of Object.keys(getAutoMapMetadata(target))) {
+        const source =
+            Reflect.getMetadata(MAP_PROPERTY_METADATA_KEY, prototype, key) ??
+            Reflect.getMetadata(MAPPER_SOURCE, prototype, key);
+        const nested = Reflect.getMetadata(MAP_NESTED_METADATA_KEY, prototype, key);
+        const resolverType = Reflect.getMetadata(USE_MAPPER, prototype, key);
+        if (source) sources[key] = source;
+        if (nested) destinations[key] = nested();
+        if (resolverType) resolvers[key] = resolverType;
+    }
+
+    return {
+        useMapper: Reflect.getOwnMetadata(USE_MAPPER, target) as
+            | ClassType<ValueResolver>
+            | undefined,
+        sources,
+        destinations,
+        resolvers
+    };
+}
@@ -2,8 +2,14 @@ import 'reflect-metadata';
 
 export const MAPPABLE_CLASS_METADATA_KEY = Symbol('MAPPABLE_CLASS_METADATA');
 
+/**
+ * Defaults of every map to the decorated class; they override the mapper's global
+ * options and are overridden by the options of each map.
+ */
 export interface MappableClassOptions {
+    /** Copy onto every declared member by name, including decorated ones left uninitialized */
     autoMapAll?: boolean;
+    /** Convert source member names, as the `convertNaming` map option */
     namingConvention?: {
         from: 'camelCase' | 'snake_case' | 'PascalCase' | 'kebab-case';
         to: 'camelCase' | 'snake_case' | 'PascalCase' | 'kebab-case';
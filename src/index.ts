@@ -2,23 +2,45 @@ export { Mapper } from './core/mapper';
 export { MappingProfile, MappingBuilder } from './core/mapping-profile';
 export { createMappingContext } from './core/mapping-context';
 export { MappingConfigurator } from './core/mapping-config';
+export { LruCacheAdapter } from './core/mapping-cache';
+export { resolver, ResolverReference } from './core/value-resolver';
+export {
+    MappingError,
+    MappingNotFoundError,
+    MemberResolutionError,
+    MappingValidationError,
+    MappingConfigurationError
+} from './core/errors';
 
 // Types
 export type {
     ClassType,
     MapperFunction,
+    ValueResolver,
+    ResolverFactory,
     AsyncMapperFunction,
     MappingConfig,
     MappingRegistryEntry,
     MappingEntryOptions,
+    PolymorphicMapping,
+    ConvertibleType,
+    TypeConverter,
+    TypeConverterDefinition,
     NamingConvention,
     MappingContext,
     ConditionalMapping,
     TransformOptions,
+    MapOptions,
+    MappingSource,
+    MapIntoOptions,
+    ArrayMergePolicy,
     MappingResult,
     ValidationRule,
-    MappingError
+    CacheConfig,
+    CacheStats,
+    MappingCacheAdapter
 } from './core/types';
+export type { MappingErrorDetails } from './core/errors';
 
 // Decorators
 export {
@@ -32,12 +54,21 @@ export {
     Validate,
     Mappable,
     MapProfile,
+    MapFrom,
+    MapTo,
+    UseMapper,
+    getAutoMapMetadata,
+    getMapperMetadata,
     AUTO_MAP_METADATA_KEY,
     MAP_PROPERTY_METADATA_KEY,
     MAP_NESTED_METADATA_KEY,
     TRANSFORM_METADATA_KEY,
-    MAPPABLE_CLASS_METADATA_KEY
+    MAPPABLE_CLASS_METADATA_KEY,
+    USE_MAPPER,
+    MAPPER_SOURCE,
+    MAPPER_DESTINATION
 } from './decorators';
+export type { AutoMapOptions } from './decorators';
 
 // Utilities
 export { deepClone } from './utils/deep-clone.util';
@@ -0,0 +1,21 @@
+import { Mapper } from '../core/mapper';
+
+/**
+ * Injection token of the options passed to `AutomapperModule.forRoot`.
+ */
+export const AUTOMAPPER_OPTIONS = Symbol('AUTOMAPPER_OPTIONS');
+
+/**
+ * Injection token of a mapper registered with `AutomapperModule.forRoot({ name })`.
+ * The unnamed mapper is provided as the `Mapper` class itself.
+ */
+export function getMapperToken(name?: string): string | typeof Mapper {
+    return name ? `AUTOMAPPER_MAPPER:${name}` : Mapper;
+}
+
+/**
+ * Injection token of the module options of a named mapper.
+ */
+export function getAutomapperOptionsToken(name?: string): string | symbol {
+    return name ? `AUTOMAPPER_OPTIONS:${name}` : AUTOMAPPER_OPTIONS;
+}
@@ -0,0 +1,330 @@
+import 'reflect-metadata';
+import { Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AutomapperModule } from './automapper.module';
+import type { AutomapperModuleOptions, AutomapperOptionsFactory } from './automapper.module';
+import { getMapperToken } from './automapper.constants';
+import { Mapper } from '../core/mapper';
+import { MappingProfile } from '../core/mapping-profile';
+import { MappingConfigurationError } from '../core/errors';
+import { resolver } from '../core/value-resolver';
+import type { ValueResolver } from '../core/types';
+
+class Source {
+    value = '';
+}
+
+class Destination {
+    value = '';
+}
+
+class FeatureDestination {
+    value = '';
+}
+
+@Injectable()
+class PrefixService {
+    prefix = 'dep:';
+}
+
+@Module({ providers: [PrefixService], exports: [PrefixService] })
+class PrefixModule {}
+
+const configured: string[] = [];
+
+@Injectable()
+class RootProfile extends MappingProfile {
+    constructor(private prefixes: PrefixService) {
+        super();
+    }
+
+    protected configure(): void {
+        configured.push('root');
+        this.createMap(Source, Destination)
+            .forMember('value', source => this.prefixes.prefix + source.value)
+            .register();
+    }
+}
+
+@Injectable()
+class FeatureProfile extends MappingProfile {
+    constructor(private prefixes: PrefixService) {
+        super();
+    }
+
+    protected configure(): void {
+        configured.push('feature');
+        this.createMap(Source, FeatureDestination)
+            .forMember('value', source => this.prefixes.prefix + source.value)
+            .register();
+    }
+}
+
+@Injectable()
+class DiscoveredProfile extends MappingProfile {
+    protected configure(): void {
+        configured.push('discovered');
+    }
+}
+
+class IncompleteDestination {
+    value = '';
+    missing = '';
+}
+
+@Injectable()
+class IncompleteProfile extends MappingProfile {
+    protected configure(): void {
+        this.createMap(Source, IncompleteDestination).register();
+    }
+}
+
+@Injectable()
+class PrefixResolver implements ValueResolver<Source, Destination, string> {
+    constructor(private prefixes: PrefixService) {}
+
+    resolve(source: Source): string {
+        return this.prefixes.prefix + source.value;
+    }
+}
+
+class UpperCaseResolver implements ValueResolver<Source, Destination, string> {
+    resolve(source: Source): string {
+        return source.value.toUpperCase();
+    }
+}
+
+@Injectable()
+class SettingsService {
+    skipNulls = true;
+}
+
+@Module({ providers: [SettingsService], exports: [SettingsService] })
+class SettingsModule {}
+
+@Injectable()
+class AutomapperConfig implements AutomapperOptionsFactory {
+    constructor(private settings: SettingsService) {}
+
+    async createAutomapperOptions(): Promise<AutomapperModuleOptions> {
+        return {
+            globalOptions: { skipNulls: this.settings.skipNulls },
+            profiles: [DiscoveredProfile]
+        };
+    }
+}
+
+@Module({
+    imports: [SettingsModule],
+    providers: [AutomapperConfig],
+    exports: [AutomapperConfig]
+})
+class AutomapperConfigModule {}
+
+function createSource(value: string): Source {
+    return Object.assign(new Source(), { value });
+}
+
+describe('AutomapperModule', () => {
+    beforeEach(() => {
+        configured.length = 0;
+    });
+
+    it('injects the providers of imported modules into forRoot and forFeature profiles', async () => {
+        @Module({
+            imports: [AutomapperModule.forFeature([FeatureProfile], { imports: [PrefixModule] })]
+        })
+        class FeatureModule {}
+
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                AutomapperModule.forRoot({ profiles: [RootProfile], imports: [PrefixModule] }),
+                FeatureModule
+            ]
+        }).compile();
+        await moduleRef.init();
+
+        const mapper = moduleRef.get(Mapper);
+        expect(mapper.map(createSource('a'), Destination).value).toBe('dep:a');
+        expect(mapper.map(createSource('b'), FeatureDestination).value).toBe('dep:b');
+        await moduleRef.close();
+    });
+
+    it('configures each profile once: root, then feature, then discovered profiles', async () => {
+        @Module({ providers: [DiscoveredProfile] })
+        class DiscoveredModule {}
+
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                DiscoveredModule,
+                AutomapperModule.forFeature([FeatureProfile], { imports: [PrefixModule] }),
+                AutomapperModule.forRoot({
+                    profiles: [RootProfile],
+                    imports: [PrefixModule],
+                    autoDiscover: true
+                })
+            ]
+        }).compile();
+        await moduleRef.init();
+
+        expect(configured).toEqual(['root', 'feature', 'discovered']);
+        expect(moduleRef.get(getMapperToken()).getMappings()).toHaveLength(2);
+        await moduleRef.close();
+    });
+
+    it('leaves profiles listed for a named mapper to that mapper when discovering', async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                AutomapperModule.forRoot({ autoDiscover: true }),
+                AutomapperModule.forRoot({ name: 'admin' }),
+                AutomapperModule.forFeature([FeatureProfile], {
+                    name: 'admin',
+                    imports: [PrefixModule]
+                })
+            ]
+        }).compile();
+        await moduleRef.init();
+
+        expect(configured).toEqual(['feature']);
+        expect(moduleRef.get<Mapper>(getMapperToken()).getMappings()).toEqual([]);
+        expect(moduleRef.get<Mapper>(getMapperToken('admin')).getMappings()).toHaveLength(1);
+        await moduleRef.close();
+    });
+
+    it('applies globalOptions, and only those, to every map', async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                AutomapperModule.forRoot({
+                    globalOptions: { skipNulls: true },
+                    cache: { enabled: true }
+                })
+            ]
+        }).compile();
+
+        const mapper = moduleRef.get(Mapper);
+        mapper.createMap(Source, Destination);
+        expect(mapper.getMapping(Source, Destination)?.options).toEqual({ skipNulls: true });
+        expect(mapper.isGlobalCacheEnabled()).toBe(true);
+    });
+
+    it('validates the configuration on startup when asked to', async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                AutomapperModule.forRoot({ profiles: [IncompleteProfile], validateOnStartup: true })
+            ]
+        }).compile();
+
+        await expect(moduleRef.init()).rejects.toThrow(
+            'Source → IncompleteDestination: "missing" is not mapped'
+        );
+    });
+
+    it('skips validation on startup by default', async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [AutomapperModule.forRoot({ profiles: [IncompleteProfile] })]
+        }).compile();
+
+        await expect(moduleRef.init()).resolves.toBeDefined();
+        await moduleRef.close();
+    });
+
+    describe('forRootAsync', () => {
+        it('resolves the options with useFactory, inject and imports', async () => {
+            const moduleRef = await Test.createTestingModule({
+                imports: [
+                    AutomapperModule.forRootAsync({
+                        imports: [SettingsModule, PrefixModule],
+                        inject: [SettingsService],
+                        useFactory: async (settings: SettingsService) => ({
+                            globalOptions: { skipNulls: settings.skipNulls },
+                            cache: { enabled: true },
+                            profiles: [DiscoveredProfile]
+                        }),
+                        profiles: [RootProfile]
+                    })
+                ]
+            }).compile();
+            await moduleRef.init();
+
+            const mapper = moduleRef.get(Mapper);
+            expect(configured).toEqual(['root', 'discovered']);
+            expect(mapper.map(createSource('a'), Destination).value).toBe('dep:a');
+            expect(mapper.getMapping(Source, Destination)?.options).toEqual({ skipNulls: true });
+            expect(mapper.isGlobalCacheEnabled()).toBe(true);
+            await moduleRef.close();
+        });
+
+        it('resolves the options of a named mapper with useClass', async () => {
+            const moduleRef = await Test.createTestingModule({
+                imports: [
+                    AutomapperModule.forRootAsync({
+                        name: 'admin',
+                        imports: [SettingsModule],
+                        useClass: AutomapperConfig
+                    })
+                ]
+            }).compile();
+            await moduleRef.init();
+
+            const mapper = moduleRef.get<Mapper>(getMapperToken('admin'));
+            expect(configured).toEqual(['discovered']);
+            mapper.createMap(Source, Destination);
+            expect(mapper.getMapping(Source, Destination)?.options).toEqual({ skipNulls: true });
+            await moduleRef.close();
+        });
+
+        it('reuses an exported options factory with useExisting', async () => {
+            const moduleRef = await Test.createTestingModule({
+                imports: [
+                    AutomapperModule.forRootAsync({
+                        imports: [AutomapperConfigModule],
+                        useExisting: AutomapperConfig
+                    })
+                ]
+            }).compile();
+            await moduleRef.init();
+
+            expect(configured).toEqual(['discovered']);
+            expect(moduleRef.get(Mapper)).toBeInstanceOf(Mapper);
+            await moduleRef.close();
+        });
+
+        it('requires useFactory, useClass or useExisting', () => {
+            expect(() => AutomapperModule.forRootAsync({})).toThrow(
+                new MappingConfigurationError(
+                    'AutomapperModule.forRootAsync requires useFactory, useClass or useExisting'
+                )
+            );
+        });
+    });
+
+    describe('value resolvers', () => {
+        async function createMapper(providers: any[]) {
+            const moduleRef = await Test.createTestingModule({
+                imports: [AutomapperModule.forRoot(), PrefixModule],
+                providers
+            }).compile();
+            return moduleRef.get(Mapper);
+        }
+
+        it('are taken from the container when registered as providers', async () => {
+            const mapper = await createMapper([PrefixResolver]);
+            mapper.createMap(Source, Destination, { value: resolver(PrefixResolver) });
+            expect(mapper.map(createSource('a'), Destination).value).toBe('dep:a');
+        });
+
+        it('without dependencies are constructed directly', async () => {
+            const mapper = await createMapper([]);
+            mapper.createMap(Source, Destination, { value: resolver(UpperCaseResolver) });
+            expect(mapper.map(createSource('a'), Destination).value).toBe('A');
+        });
+
+        it('with dependencies fail to map unless registered as providers', async () => {
+            const mapper = await createMapper([]);
+            mapper.createMap(Source, Destination, { value: resolver(PrefixResolver) });
+            expect(() => mapper.map(createSource('a'), Destination)).toThrow(
+                MappingConfigurationError
+            );
+        });
+    });
+});
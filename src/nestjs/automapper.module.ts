@@ -1,64 +1,352 @@
-import { DynamicModule, Global, Module, Type } from '@nestjs/common';
+import {
+    DynamicModule,
+    Global,
+    Logger,
+    Module,
+    ModuleMetadata,
+    OnApplicationBootstrap,
+    OnModuleInit,
+    Provider,
+    Type
+} from '@nestjs/common';
+import {
+    APP_INTERCEPTOR,
+    DiscoveryModule,
+    DiscoveryService,
+    ModuleRef,
+    Reflector
+} from '@nestjs/core';
 import { Mapper } from '../core/mapper';
 import { MappingProfile } from '../core/mapping-profile';
+import { MappingConfigurationError } from '../core/errors';
 import type { MappingEntryOptions } from '../core/types';
-import type { CacheConfig } from '../core/types';
+import type { CacheConfig, ResolverFactory } from '../core/types';
+import { getAutomapperOptionsToken, getMapperToken } from './automapper.constants';
+import { MapResponseInterceptor } from './interceptor';
+import type { ResponseEnvelope } from './decorators';
 
-export interface AutomapperModuleOptions {
+export interface AutomapperModuleOptions extends Pick<ModuleMetadata, 'imports'> {
+    /** Registers a named mapper, injected with `@InjectMapper(name)`; omit for the default `Mapper` */
+    name?: string;
     globalOptions?: MappingEntryOptions;
+    /** Profiles registered as injectable providers; their dependencies come from `imports` */
     profiles?: Type<MappingProfile>[];
+    /** Register every `MappingProfile` provider of the application during module init */
     autoDiscover?: boolean;
     cache?: CacheConfig;
+    /** Run `mapper.assertConfigurationIsValid()` once every profile is registered */
+    validateOnStartup?: boolean;
+    /** Envelopes recognized by `@MapResponse` without an explicit `envelope` option */
+    responseEnvelopes?: ResponseEnvelope[];
+}
+
+/**
+ * Creates the module options for `AutomapperModule.forRootAsync` (`useClass`/`useExisting`).
+ */
+export interface AutomapperOptionsFactory {
+    createAutomapperOptions(): AutomapperModuleOptions | Promise<AutomapperModuleOptions>;
+}
+
+export interface AutomapperModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+    useFactory?: (...args: any[]) => AutomapperModuleOptions | Promise<AutomapperModuleOptions>;
+    inject?: any[];
+    useClass?: Type<AutomapperOptionsFactory>;
+    useExisting?: Type<AutomapperOptionsFactory>;
+    /** Name of the mapper, as with `forRoot`; must be known before the options resolve */
+    name?: string;
+    /** Profiles registered as injectable providers, as with `forRoot` */
+    profiles?: Type<MappingProfile>[];
+}
+
+/**
+ * Options of `AutomapperModule.forFeature`.
+ */
+export interface AutomapperFeatureOptions extends Pick<ModuleMetadata, 'imports'> {
+    /** Name of the mapper the profiles are registered against; omit for the default mapper */
+    name?: string;
+}
+
+/**
+ * Validates the mapper configuration after all modules, and thus all profiles, are initialized.
+ */
+class MapperConfigurationValidator implements OnApplicationBootstrap {
+    constructor(
+        private options: AutomapperModuleOptions,
+        private mapper: Mapper
+    ) {}
+
+    onApplicationBootstrap(): void {
+        if (this.options.validateOnStartup) this.mapper.assertConfigurationIsValid();
+    }
+}
+
+/**
+ * Profile instances a root or feature module provides for one mapper, in listed order.
+ */
+interface ProfileRegistration {
+    name?: string;
+    profiles: MappingProfile[];
+}
+
+const PROFILE_REGISTRATION = Symbol('PROFILE_REGISTRATION');
+
+/**
+ * Configures the profiles of one mapper exactly once, in a fixed order: `forRoot` profiles,
+ * `forFeature` profiles in module order, profiles returned by an async options factory,
+ * then providers found by `autoDiscover`. The root module is global, so its init hook
+ * runs before those of regular modules.
+ */
+class MappingProfileRegistrar implements OnModuleInit {
+    private readonly logger = new Logger('AutomapperModule');
+
+    constructor(
+        private options: AutomapperModuleOptions,
+        private registration: ProfileRegistration,
+        private discovery: DiscoveryService,
+        private mapper: Mapper
+    ) {}
+
+    onModuleInit(): void {
+        const features = this.discovery
+            .getProviders()
+            .filter(
+                wrapper =>
+                    wrapper.token === PROFILE_REGISTRATION &&
+                    wrapper.instance !== this.registration &&
+                    wrapper.instance?.name === this.registration.name
+            )
+            .map(wrapper => wrapper.instance as ProfileRegistration);
+
+        for (const { profiles } of [this.registration, ...features]) {
+            for (const profile of profiles) this.mapper.addProfile(profile);
+        }
+
+        // Profiles only known once async options resolve cannot be providers
+        for (const ProfileClass of this.options.profiles ?? []) {
+            if (!this.registration.profiles.some(profile => profile instanceof ProfileClass)) {
+                this.mapper.addProfile(new ProfileClass());
+            }
+        }
+
+        if (this.options.autoDiscover) this.discoverProfiles();
+    }
+
+    /**
+     * Registers every MappingProfile provider not yet configured against any mapper and not
+     * listed for a mapper by `forRoot`/`forFeature`, whose roots may initialize later.
+     */
+    private discoverProfiles(): void {
+        const providers = this.discovery.getProviders();
+        const listed = new Set(
+            providers
+                .filter(wrapper => wrapper.token === PROFILE_REGISTRATION)
+                .flatMap(wrapper => (wrapper.instance as ProfileRegistration).profiles)
+        );
+
+        const discovered: string[] = [];
+        for (const wrapper of providers) {
+            const instance = wrapper.instance;
+            if (
+                instance instanceof MappingProfile &&
+                !instance.isRegistered &&
+                !listed.has(instance) &&
+                this.mapper.addProfile(instance)
+            ) {
+                discovered.push(instance.constructor.name);
+            }
+        }
+
+        const mapperName = this.options.name ? ` for mapper "${this.options.name}"` : '';
+        this.logger.log(
+            discovered.length
+                ? `Discovered mapping profiles${mapperName}: ${discovered.join(', ')}`
+                : `No additional mapping profiles discovered${mapperName}`
+        );
+    }
+}
+
+/**
+ * Resolvers registered as providers come from the container. Others are constructed directly
+ * when their constructor takes no arguments; a resolver with dependencies must be a provider,
+ * or those dependencies would be undefined.
+ */
+function createContainerResolverFactory(moduleRef: ModuleRef): ResolverFactory {
+    return type => {
+        try {
+            return moduleRef.get(type, { strict: false });
+        } catch {
+            const dependencies = Reflect.getMetadata('design:paramtypes', type) ?? [];
+            if (type.length || dependencies.length) {
+                throw new MappingConfigurationError(
+                    `Value resolver ${type.name} has dependencies but is not a provider; add it to the providers of a module`
+                );
+            }
+            return new type();
+        }
+    };
 }
 
 @Global()
 @Module({})
 export class AutomapperModule {
     static forRoot(options?: AutomapperModuleOptions): DynamicModule {
-        const mapperProvider = {
-            provide: Mapper,
-            useFactory: () => {
-                // Mapper constructor should accept an options bag that may include cache config.
-                const mapper = new Mapper({
-                    ...(options?.globalOptions || {}),
-                    cache: options?.cache
-                } as any);
-
-                if (options?.profiles) {
-                    options.profiles.forEach(ProfileClass => {
-                        new ProfileClass(mapper);
-                    });
-                }
+        const module = this.createRootModule(
+            [{ provide: getAutomapperOptionsToken(options?.name), useValue: options ?? {} }],
+            options?.profiles ?? [],
+            options?.name
+        );
+        return { ...module, imports: [...(module.imports ?? []), ...(options?.imports ?? [])] };
+    }
 
-                return mapper;
-            }
-        };
+    /**
+     * Resolves the module options through DI, e.g. from `ConfigService`. Profiles given here
+     * become providers as with `forRoot`; profiles returned by the factory are created
+     * directly and registered after them.
+     */
+    static forRootAsync(options: AutomapperModuleAsyncOptions): DynamicModule {
+        const module = this.createRootModule(
+            this.createAsyncOptionsProviders(options),
+            options.profiles ?? [],
+            options.name
+        );
+        return { ...module, imports: [...(module.imports ?? []), ...(options.imports ?? [])] };
+    }
+
+    private static createRootModule(
+        optionsProviders: Provider[],
+        profiles: Type<MappingProfile>[],
+        name?: string
+    ): DynamicModule {
+        const mapperToken = getMapperToken(name);
+        const optionsToken = getAutomapperOptionsToken(name);
+        // Async factories may omit the name, which is fixed when the module is declared
+        const withName = (options: AutomapperModuleOptions) => ({ ...options, name });
 
-        const profileProviders =
-            options?.profiles?.map(ProfileClass => ({
-                provide: ProfileClass,
-                useFactory: (mapper: Mapper) => new ProfileClass(mapper),
-                inject: [Mapper]
-            })) || [];
+        const mapperProvider = {
+            provide: mapperToken,
+            useFactory: (options: AutomapperModuleOptions, moduleRef: ModuleRef) =>
+                // Profiles are configured later, by MappingProfileRegistrar
+                new Mapper({
+                    globalOptions: options.globalOptions ?? {},
+                    cache: options.cache,
+                    resolverFactory: createContainerResolverFactory(moduleRef)
+                }),
+            inject: [optionsToken, ModuleRef]
+        };
 
         return {
             module: AutomapperModule,
-            providers: [mapperProvider, ...profileProviders],
-            exports: [Mapper, ...profileProviders]
+            imports: [DiscoveryModule],
+            providers: [
+                ...optionsProviders,
+                mapperProvider,
+                ...this.createProfileProviders(profiles, name),
+                {
+                    provide: MappingProfileRegistrar,
+                    useFactory: (
+                        options: AutomapperModuleOptions,
+                        registration: ProfileRegistration,
+                        discovery: DiscoveryService,
+                        mapper: Mapper
+                    ) =>
+                        new MappingProfileRegistrar(
+                            withName(options),
+                            registration,
+                            discovery,
+                            mapper
+                        ),
+                    inject: [optionsToken, PROFILE_REGISTRATION, DiscoveryService, mapperToken]
+                },
+                {
+                    provide: MapperConfigurationValidator,
+                    useFactory: (options: AutomapperModuleOptions, mapper: Mapper) =>
+                        new MapperConfigurationValidator(options, mapper),
+                    inject: [optionsToken, mapperToken]
+                },
+                {
+                    provide: APP_INTERCEPTOR,
+                    useFactory: (
+                        reflector: Reflector,
+                        mapper: Mapper,
+                        options: AutomapperModuleOptions,
+                        moduleRef: ModuleRef
+                    ) =>
+                        new MapResponseInterceptor(reflector, mapper, withName(options), moduleRef),
+                    inject: [Reflector, mapperToken, optionsToken, ModuleRef]
+                }
+            ],
+            exports: [mapperToken, ...profiles]
         };
     }
 
-    static forFeature(profiles: Type<MappingProfile>[]): DynamicModule {
-        const profileProviders = profiles.map(ProfileClass => ({
-            provide: ProfileClass,
-            useFactory: (mapper: Mapper) => new ProfileClass(mapper),
-            inject: [Mapper]
-        }));
+    private static createAsyncOptionsProviders(options: AutomapperModuleAsyncOptions): Provider[] {
+        const optionsToken = getAutomapperOptionsToken(options.name);
+        if (options.useFactory) {
+            return [
+                {
+                    provide: optionsToken,
+                    useFactory: options.useFactory,
+                    inject: options.inject ?? []
+                }
+            ];
+        }
+
+        const factoryClass = options.useExisting ?? options.useClass;
+        if (!factoryClass) {
+            throw new MappingConfigurationError(
+                'AutomapperModule.forRootAsync requires useFactory, useClass or useExisting'
+            );
+        }
+
+        return [
+            {
+                provide: optionsToken,
+                useFactory: (factory: AutomapperOptionsFactory) =>
+                    factory.createAutomapperOptions(),
+                inject: [factoryClass]
+            },
+            // useExisting reuses a provider registered elsewhere
+            ...(options.useExisting ? [] : [{ provide: factoryClass, useClass: factoryClass }])
+        ];
+    }
 
+    /**
+     * Provides profiles for the unnamed mapper, or the mapper named `name`. They are
+     * registered by the root module during module init, after the `forRoot` profiles.
+     * Pass the modules exporting their dependencies as `imports`.
+     */
+    static forFeature(
+        profiles: Type<MappingProfile>[],
+        options?: string | AutomapperFeatureOptions
+    ): DynamicModule {
+        const { name, imports = [] } =
+            typeof options === 'string' ? { name: options } : (options ?? {});
         return {
             module: AutomapperModule,
-            providers: profileProviders,
-            exports: profileProviders
+            imports,
+            providers: this.createProfileProviders(profiles, name),
+            exports: profiles
         };
     }
+
+    /**
+     * Profiles are regular providers, so they may inject other providers: global ones and
+     * those exported by the `imports` of the module providing them.
+     */
+    private static createProfileProviders(
+        profiles: Type<MappingProfile>[],
+        name?: string
+    ): Provider[] {
+        return [
+            ...profiles,
+            {
+                provide: PROFILE_REGISTRATION,
+                useFactory: (...instances: MappingProfile[]): ProfileRegistration => ({
+                    name,
+                    profiles: instances
+                }),
+                inject: profiles
+            }
+        ];
+    }
 }
@@ -1,89 +1,63 @@
 import 'reflect-metadata';
-import type { ClassType } from '../core/types';
+import { Inject, SetMetadata } from '@nestjs/common';
+import type { ClassType, MapOptions } from '../core/types';
+import { getMapperToken } from './automapper.constants';
+
+// Mapping decorators are shared with the core package
+export {
+    AutoMap,
+    MapFrom,
+    MapTo,
+    UseMapper,
+    getAutoMapMetadata,
+    getMapperMetadata,
+    USE_MAPPER,
+    MAPPER_SOURCE,
+    MAPPER_DESTINATION
+} from '../decorators';
 
 /**
  * Metadata keys
  */
-export const USE_MAPPER = Symbol.for('USE_MAPPER');
-export const MAPPER_SOURCE = Symbol('MAPPER_SOURCE');
-export const MAPPER_DESTINATION = Symbol('MAPPER_DESTINATION');
+export const MAP_RESPONSE = Symbol('MAP_RESPONSE');
 
 /**
- * @UseMapper decorator
- * Marks a class to use a specific mapper for transformation
- * @param mapperClass The Mapper class to use
+ * Wrapper around the mapped data, e.g. `{ items, total }` or a `Page<T>` class.
+ * Only `key` is mapped; every other member is kept.
  */
-export function UseMapper(mapperClass: ClassType<any>): ClassDecorator {
-    return target => {
-        Reflect.defineMetadata(USE_MAPPER, mapperClass, target);
-    };
+export interface ResponseEnvelope {
+    /** Envelope class; without it any object is treated as the envelope */
+    type?: ClassType<any>;
+    /** Member holding the data to map */
+    key: string;
 }
 
-/**
- * @MapFrom decorator
- * Maps a property from a source property or type
- * @param sourcePropertyOrType string | class constructor
- */
-export function MapFrom(sourcePropertyOrType: string | ClassType<any>): PropertyDecorator {
-    return (target: Object, propertyKey: string | symbol) => {
-        if (!sourcePropertyOrType) {
-            throw new Error('@MapFrom requires a source property or class type');
-        }
-        Reflect.defineMetadata('mapper:source', sourcePropertyOrType, target, propertyKey);
-    };
+export interface MapResponseOptions extends Omit<MapOptions, 'context'> {
+    /** Envelope of the response, as a data key or a full description */
+    envelope?: string | ResponseEnvelope;
+    /** Name of the mapper to use (`forRoot({ name })`); the unnamed mapper by default */
+    mapper?: string;
 }
 
-/**
- * @MapTo decorator
- * Maps a property to a destination property or type
- * @param destinationPropertyOrType string | class constructor
- */
-export function MapTo(destinationPropertyOrType: string | ClassType<any>): PropertyDecorator {
-    return (target: Object, propertyKey: string | symbol) => {
-        if (!destinationPropertyOrType) {
-            throw new Error('@MapTo requires a destination property or class type');
-        }
-        Reflect.defineMetadata(
-            'mapper:destination',
-            destinationPropertyOrType,
-            target,
-            propertyKey
-        );
-    };
+export interface MapResponseMetadata {
+    destination: ClassType<any>;
+    options: MapResponseOptions;
 }
 
 /**
- * @AutoMap decorator (for simple automatic mapping)
- * Optionally accepts a class type for nested mapping
+ * @MapResponse decorator
+ * Maps the handler result (object, array or envelope) to the destination DTO
+ * @param destination The class to map the response to
  */
-export function AutoMap(destination?: ClassType<any>): PropertyDecorator & ClassDecorator {
-    return (target: object, propertyKey?: string | symbol) => {
-        const METADATA_KEY = Symbol.for('AUTO_MAP_METADATA');
-        if (propertyKey) {
-            // Property decorator
-            const existingProps: Record<string | symbol, ClassType<any> | undefined> =
-                Reflect.getMetadata(METADATA_KEY, target.constructor) || {};
-            existingProps[propertyKey] = destination;
-            Reflect.defineMetadata(METADATA_KEY, existingProps, target.constructor);
-        } else {
-            // Class decorator
-            Reflect.defineMetadata(METADATA_KEY, { __class__: destination || target }, target);
-        }
-    };
+export function MapResponse(destination: ClassType<any>, options: MapResponseOptions = {}) {
+    return SetMetadata<symbol, MapResponseMetadata>(MAP_RESPONSE, { destination, options });
 }
 
 /**
- * Helpers to get metadata
+ * @InjectMapper decorator
+ * Injects the mapper registered under `name`, or the unnamed mapper
+ * @param name Name given to `AutomapperModule.forRoot`
  */
-export function getMapperMetadata(target: new (...args: any[]) => any) {
-    return {
-        useMapper: Reflect.getMetadata(USE_MAPPER, target),
-        sources: Reflect.getMetadata(MAPPER_SOURCE, target) || {},
-        destinations: Reflect.getMetadata(MAPPER_DESTINATION, target) || {}
-    };
-}
-
-export function getAutoMapMetadata(target: new (...args: any[]) => any) {
-    const METADATA_KEY = Symbol.for('AUTO_MAP_METADATA');
-    return Reflect.getMetadata(METADATA_KEY, target) || {};
+export function InjectMapper(name?: string): PropertyDecorator & ParameterDecorator {
+    return Inject(getMapperToken(name));
 }
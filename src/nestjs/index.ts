@@ -1,12 +1,29 @@
 export { AutomapperModule } from './automapper.module';
-export { AutoMapInterceptor } from './interceptor';
-export { AutoMapPipe } from './pipe';
+export type {
+    AutomapperModuleOptions,
+    AutomapperModuleAsyncOptions,
+    AutomapperFeatureOptions,
+    AutomapperOptionsFactory
+} from './automapper.module';
+export {
+    AUTOMAPPER_OPTIONS,
+    getMapperToken,
+    getAutomapperOptionsToken
+} from './automapper.constants';
+export { AutoMapInterceptor, MapResponseInterceptor } from './interceptor';
+export { AutoMapPipe, MapRequestPipe } from './pipe';
+export type { MapRequestOptions } from './pipe';
 export {
     UseMapper,
     MapFrom,
     MapTo,
+    MapResponse,
+    InjectMapper,
     USE_MAPPER,
     MAPPER_SOURCE,
-    MAPPER_DESTINATION
+    MAPPER_DESTINATION,
+    MAP_RESPONSE
 } from './decorators';
-export { MapBody, MapQuery } from './param-decorator';
+export type { MapResponseOptions, ResponseEnvelope } from './decorators';
+export { MapBody, MapQuery, MapParam, MapHeaders, MapPayload } from './param-decorator';
+export type { MapRequestDecorator } from './param-decorator';
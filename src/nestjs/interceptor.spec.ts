@@ -0,0 +1,177 @@
+import 'reflect-metadata';
+import { StreamableFile } from '@nestjs/common';
+import type { CallHandler, ExecutionContext } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { lastValueFrom, of, toArray } from 'rxjs';
+import { AutomapperModule } from './automapper.module';
+import { getMapperToken } from './automapper.constants';
+import { MapResponse } from './decorators';
+import { AutoMapInterceptor, MapResponseInterceptor } from './interceptor';
+import { Mapper } from '../core/mapper';
+import { MappingBuilder } from '../core/mapping-profile';
+import { MappingConfigurationError } from '../core/errors';
+
+class User {
+    name = '';
+    password = '';
+}
+
+class UserDto {
+    name = '';
+}
+
+class AdminUser extends User {
+    role = 'owner';
+}
+
+class AdminUserDto extends UserDto {
+    role = '';
+}
+
+class UsersController {
+    @MapResponse(UserDto)
+    findDefault() {}
+
+    @MapResponse(UserDto, { mapper: 'admin' })
+    findAdmin() {}
+
+    @MapResponse(UserDto, { mapper: 'admn' })
+    findTypo() {}
+}
+
+function createContext(
+    handler: keyof UsersController,
+    type: 'http' | 'rpc' | 'ws' | 'graphql' = 'http'
+): ExecutionContext {
+    return {
+        getType: () => type,
+        getClass: () => UsersController,
+        getHandler: () => UsersController.prototype[handler]
+    } as unknown as ExecutionContext;
+}
+
+function respondWith(...data: unknown[]): CallHandler {
+    return { handle: () => of(...data) };
+}
+
+describe('MapResponseInterceptor', () => {
+    let mapper: Mapper;
+    let interceptor: MapResponseInterceptor;
+    const user = Object.assign(new User(), { name: 'ann', password: 'secret' });
+
+    beforeEach(async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [AutomapperModule.forRoot({ name: 'admin' })]
+        }).compile();
+
+        mapper = moduleRef.get(getMapperToken('admin'));
+        mapper.createMap(User, UserDto);
+        interceptor = new MapResponseInterceptor(
+            new Reflector(),
+            mapper,
+            { name: 'admin' },
+            moduleRef.get(ModuleRef)
+        );
+    });
+
+    it('maps handlers selecting its mapper', async () => {
+        const result = interceptor.intercept(createContext('findAdmin'), respondWith(user));
+        await expect(lastValueFrom(result)).resolves.toEqual(
+            Object.assign(new UserDto(), { name: 'ann' })
+        );
+    });
+
+    it('awaits members returning promises', async () => {
+        mapper.clear();
+        mapper.createMap(User, UserDto, { name: (user: User) => Promise.resolve(user.name) });
+
+        const result = interceptor.intercept(createContext('findAdmin'), respondWith([user]));
+        await expect(lastValueFrom(result)).resolves.toEqual([
+            Object.assign(new UserDto(), { name: 'ann' })
+        ]);
+    });
+
+    it('maps every item of arrays holding null or undefined items', async () => {
+        const result = interceptor.intercept(
+            createContext('findAdmin'),
+            respondWith([null, user, undefined])
+        );
+        await expect(lastValueFrom(result)).resolves.toEqual([
+            null,
+            Object.assign(new UserDto(), { name: 'ann' }),
+            undefined
+        ]);
+    });
+
+    describe('transports', () => {
+        const dto = Object.assign(new UserDto(), { name: 'ann' });
+
+        it('maps graphql resolver results', async () => {
+            const result = interceptor.intercept(
+                createContext('findAdmin', 'graphql'),
+                respondWith(user)
+            );
+            await expect(lastValueFrom(result)).resolves.toEqual(dto);
+        });
+
+        it('maps every message of streamed rpc responses in order', async () => {
+            mapper.clear();
+            mapper.createMap(User, UserDto, {
+                name: (source: User) =>
+                    new Promise(resolve =>
+                        setTimeout(() => resolve(source.name), source.name.length)
+                    )
+            });
+            const users = ['carla', 'bo', 'ann'].map(name => Object.assign(new User(), { name }));
+
+            const result = interceptor.intercept(
+                createContext('findAdmin', 'rpc'),
+                respondWith(...users)
+            );
+            const names = (await lastValueFrom(result.pipe(toArray()))).map(item => item.name);
+            expect(names).toEqual(['carla', 'bo', 'ann']);
+        });
+
+        it('maps the data of ws { event, data } responses', async () => {
+            const result = interceptor.intercept(
+                createContext('findAdmin', 'ws'),
+                respondWith({ event: 'user', data: user })
+            );
+            await expect(lastValueFrom(result)).resolves.toEqual({ event: 'user', data: dto });
+        });
+
+        it('passes http StreamableFile responses through', async () => {
+            const file = new StreamableFile(Buffer.from('ann'));
+            const result = interceptor.intercept(createContext('findAdmin'), respondWith(file));
+            await expect(lastValueFrom(result)).resolves.toBe(file);
+        });
+    });
+
+    it('fails for handlers selecting a mapper no root registers', () => {
+        expect(() => interceptor.intercept(createContext('findTypo'), respondWith(user))).toThrow(
+            new MappingConfigurationError('No mapper named "admn" is registered')
+        );
+        expect(() =>
+            interceptor.intercept(createContext('findDefault'), respondWith(user))
+        ).toThrow(new MappingConfigurationError('No default mapper is registered'));
+    });
+});
+
+describe('AutoMapInterceptor', () => {
+    it('maps each item with the map its source dispatches to', async () => {
+        const mapper = new Mapper();
+        new MappingBuilder(mapper, User, UserDto)
+            .polymorphic({ types: new Map([[AdminUser, AdminUserDto]]) })
+            .register();
+        mapper.createMap(AdminUser, AdminUserDto);
+        const users = [new User(), Object.assign(new AdminUser(), { name: 'ann' })];
+
+        const interceptor = new AutoMapInterceptor(mapper, UserDto);
+        const result = interceptor.intercept(createContext('findDefault'), respondWith(users));
+        await expect(lastValueFrom(result)).resolves.toEqual([
+            new UserDto(),
+            Object.assign(new AdminUserDto(), { name: 'ann', role: 'owner' })
+        ]);
+    });
+});
@@ -1,7 +1,21 @@
-import { NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import {
+    NestInterceptor,
+    ExecutionContext,
+    CallHandler,
+    Inject,
+    Injectable,
+    StreamableFile,
+    ContextType
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { concatMap, map } from 'rxjs/operators';
 import { Mapper } from '../core/mapper';
+import { MappingConfigurationError } from '../core/errors';
+import { AUTOMAPPER_OPTIONS, getMapperToken } from './automapper.constants';
+import { MAP_RESPONSE } from './decorators';
+import type { MapResponseMetadata, ResponseEnvelope } from './decorators';
+import type { AutomapperModuleOptions } from './automapper.module';
 
 export class AutoMapInterceptor<T extends object = any> implements NestInterceptor<T, any> {
     constructor(
@@ -12,6 +26,7 @@ export class AutoMapInterceptor<T extends object = any> implements NestIntercept
     intercept(_context: ExecutionContext, next: CallHandler<T>): Observable<any> {
         return next.handle().pipe(
             map(data => {
+                if (!data || typeof data !== 'object') return data;
                 if (Array.isArray(data)) {
                     return this.mapper.mapArray(data, this.destination);
                 }
@@ -20,3 +35,96 @@ export class AutoMapInterceptor<T extends object = any> implements NestIntercept
         );
     }
 }
+
+/**
+ * Maps handler results declared with `@MapResponse`. Registered globally by AutomapperModule;
+ * handlers without the decorator pass through untouched. Works for HTTP controllers,
+ * microservice handlers, WebSocket gateways and GraphQL resolvers. A handler selecting a
+ * mapper no root module registers fails instead of returning its result unmapped.
+ */
+@Injectable()
+export class MapResponseInterceptor implements NestInterceptor {
+    /** Names of other roots' mappers found in the container */
+    private readonly knownMappers = new Set<string | undefined>();
+
+    constructor(
+        private reflector: Reflector,
+        private mapper: Mapper,
+        @Inject(AUTOMAPPER_OPTIONS) private options: AutomapperModuleOptions,
+        private moduleRef: ModuleRef
+    ) {}
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const metadata = this.reflector.getAllAndOverride<MapResponseMetadata | undefined>(
+            MAP_RESPONSE,
+            [context.getHandler(), context.getClass()]
+        );
+        if (!metadata) return next.handle();
+        // Every mapper's module registers this interceptor; each handles its own handlers
+        if (metadata.options.mapper !== this.options.name) {
+            this.assertMapperExists(metadata.options.mapper);
+            return next.handle();
+        }
+
+        // Streamed (rpc) responses keep their order even when mapped asynchronously
+        const transport = context.getType<ContextType | 'graphql'>();
+        return next.handle().pipe(concatMap(data => this.mapResponse(data, metadata, transport)));
+    }
+
+    private assertMapperExists(name: string | undefined): void {
+        if (this.knownMappers.has(name)) return;
+        try {
+            this.moduleRef.get(getMapperToken(name), { strict: false });
+        } catch {
+            throw new MappingConfigurationError(
+                name ? `No mapper named "${name}" is registered` : 'No default mapper is registered'
+            );
+        }
+        this.knownMappers.add(name);
+    }
+
+    private async mapResponse(
+        data: unknown,
+        metadata: MapResponseMetadata,
+        transport: string
+    ): Promise<unknown> {
+        if (!data || typeof data !== 'object') return data;
+        if (transport === 'http' && data instanceof StreamableFile) return data;
+
+        const envelope = this.findEnvelope(data, metadata, transport);
+        if (!envelope) return this.mapData(data, metadata);
+
+        // Keep the envelope's class and remaining members, replace only the data
+        const result = Object.assign(Object.create(Object.getPrototypeOf(data)), data);
+        result[envelope.key] = await this.mapData((data as any)[envelope.key], metadata);
+        return result;
+    }
+
+    private findEnvelope(
+        data: object,
+        { options }: MapResponseMetadata,
+        transport: string
+    ): ResponseEnvelope | undefined {
+        if (Array.isArray(data)) return undefined;
+        if (typeof options.envelope === 'string') return { key: options.envelope };
+        if (options.envelope) return options.envelope;
+        // Gateway handlers may answer with a WsResponse ({ event, data })
+        if (transport === 'ws' && 'event' in data && 'data' in data) return { key: 'data' };
+
+        return this.options.responseEnvelopes?.find(envelope =>
+            envelope.type ? data instanceof envelope.type : envelope.key in data
+        );
+    }
+
+    private async mapData(data: any, { destination, options }: MapResponseMetadata) {
+        if (!data || typeof data !== 'object') return data;
+
+        const mapOptions = { ...options };
+        delete mapOptions.envelope;
+        delete mapOptions.mapper;
+        // Responses are awaited anyway; mapAsync also awaits members that return promises
+        return Array.isArray(data)
+            ? this.mapper.mapArrayAsync(data, destination, mapOptions)
+            : this.mapper.mapAsync(data, destination, mapOptions);
+    }
+}
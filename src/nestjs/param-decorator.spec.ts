@@ -0,0 +1,176 @@
+import 'reflect-metadata';
+import type { ExecutionContext, PipeTransform } from '@nestjs/common';
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { ModuleRef } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { AutomapperModule } from './automapper.module';
+import { MapBody, MapHeaders, MapParam, MapPayload, MapQuery } from './param-decorator';
+import { MapRequestPipe } from './pipe';
+import type { MapRequestData } from './pipe';
+import { Mapper } from '../core/mapper';
+
+class UserParams {
+    id = '';
+}
+
+class PageQuery {
+    page = '';
+}
+
+class TraceHeaders {
+    'x-trace-id' = '';
+}
+
+class CreateUserCommand {
+    email = '';
+}
+
+class AddTagPipe implements PipeTransform {
+    transform(value: any) {
+        return { ...value, tagged: true };
+    }
+}
+
+interface ParamArgument {
+    factory: (data: MapRequestData, ctx: ExecutionContext) => unknown;
+    data: MapRequestData;
+    pipes: unknown[];
+}
+
+/** The param argument a decorator records, as Nest reads it when routing a request. */
+function getArgument(decorator: ParameterDecorator): ParamArgument {
+    class Controller {
+        handle(_value: unknown) {}
+    }
+    decorator(Controller.prototype, 'handle', 0);
+    const args = Reflect.getMetadata(ROUTE_ARGS_METADATA, Controller, 'handle');
+    return Object.values(args)[0] as ParamArgument;
+}
+
+function createHttpContext(request: Record<string, unknown>): ExecutionContext {
+    return {
+        getType: () => 'http',
+        switchToHttp: () => ({ getRequest: () => request })
+    } as unknown as ExecutionContext;
+}
+
+/** Context of a handler on a non-HTTP transport receiving `payload`. */
+function createTransportContext(
+    type: 'rpc' | 'ws' | 'graphql',
+    payload: unknown
+): ExecutionContext {
+    return {
+        getType: () => type,
+        switchToRpc: () => ({ getData: () => payload }),
+        switchToWs: () => ({ getData: () => payload }),
+        getArgByIndex: (index: number) => (index === 1 ? payload : undefined)
+    } as unknown as ExecutionContext;
+}
+
+describe('request param decorators', () => {
+    let mapper: Mapper;
+    let pipe: MapRequestPipe;
+
+    /** Extracts the argument and runs it through the pipes, like Nest's router does. */
+    async function resolveArgument(decorator: ParameterDecorator, ctx: ExecutionContext) {
+        const { factory, data, pipes } = getArgument(decorator);
+        let value = factory(data, ctx);
+        for (const entry of pipes) {
+            const current =
+                entry === MapRequestPipe
+                    ? pipe
+                    : typeof entry === 'function'
+                      ? new (entry as new () => PipeTransform)()
+                      : (entry as PipeTransform);
+            value = await current.transform(value, { type: 'custom', data: data as any });
+        }
+        return value;
+    }
+
+    beforeEach(async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [AutomapperModule.forRoot()]
+        }).compile();
+
+        mapper = moduleRef.get(Mapper);
+        pipe = new MapRequestPipe(moduleRef.get(ModuleRef), mapper);
+        mapper.createMap('user-params', UserParams);
+        mapper.createMap('page-query', PageQuery);
+        mapper.createMap('trace-headers', TraceHeaders);
+        mapper.createMap('create-user', CreateUserCommand);
+    });
+
+    it('map route params, query and headers', async () => {
+        const ctx = createHttpContext({
+            params: { id: '7', other: 'x' },
+            query: { page: '2', debug: '1' },
+            headers: { 'x-trace-id': 'abc', cookie: 'secret' }
+        });
+
+        await expect(
+            resolveArgument(MapParam(UserParams, { sourceType: 'user-params' }), ctx)
+        ).resolves.toEqual(Object.assign(new UserParams(), { id: '7' }));
+        await expect(
+            resolveArgument(MapQuery(PageQuery, { sourceType: 'page-query' }), ctx)
+        ).resolves.toEqual(Object.assign(new PageQuery(), { page: '2' }));
+        await expect(
+            resolveArgument(MapHeaders(TraceHeaders, { sourceType: 'trace-headers' }), ctx)
+        ).resolves.toEqual(Object.assign(new TraceHeaders(), { 'x-trace-id': 'abc' }));
+    });
+
+    it('map a single property of the request part', async () => {
+        const ctx = createHttpContext({ body: { user: { email: 'a@b.c', admin: true } } });
+        const result = await resolveArgument(
+            MapBody(CreateUserCommand, { sourceType: 'create-user', property: 'user' }),
+            ctx
+        );
+
+        expect(result).toEqual(Object.assign(new CreateUserCommand(), { email: 'a@b.c' }));
+    });
+
+    it('map array bodies item by item', async () => {
+        const ctx = createHttpContext({ body: [{ email: 'a@b.c' }, { email: 'd@e.f' }] });
+        const result = (await resolveArgument(
+            MapBody(CreateUserCommand, { sourceType: 'create-user' }),
+            ctx
+        )) as CreateUserCommand[];
+
+        expect(result.map(command => command.email)).toEqual(['a@b.c', 'd@e.f']);
+        expect(result[0]).toBeInstanceOf(CreateUserCommand);
+    });
+
+    it('run extra pipes on the mapped value', async () => {
+        const ctx = createHttpContext({ body: { email: 'a@b.c' } });
+        const result = await resolveArgument(
+            MapBody(CreateUserCommand, { sourceType: 'create-user' }, AddTagPipe),
+            ctx
+        );
+
+        expect(result).toEqual({ email: 'a@b.c', tagged: true });
+    });
+
+    describe('MapPayload', () => {
+        const expected = Object.assign(new CreateUserCommand(), { email: 'a@b.c' });
+        const decorator = () => MapPayload(CreateUserCommand, { sourceType: 'create-user' });
+
+        it.each(['rpc', 'ws', 'graphql'] as const)('maps the %s payload', async type => {
+            const ctx = createTransportContext(type, { email: 'a@b.c', admin: true });
+            await expect(resolveArgument(decorator(), ctx)).resolves.toEqual(expected);
+        });
+
+        it('maps the request body over http', async () => {
+            const ctx = createHttpContext({ body: { email: 'a@b.c', admin: true } });
+            await expect(resolveArgument(decorator(), ctx)).resolves.toEqual(expected);
+        });
+    });
+
+    it('map with the mapper given at decoration time', async () => {
+        const own = new Mapper();
+        own.createMap(Object, CreateUserCommand, { email: () => 'own@b.c' });
+        const ctx = createHttpContext({ body: { email: 'a@b.c' } });
+
+        await expect(resolveArgument(MapBody(CreateUserCommand, own), ctx)).resolves.toEqual(
+            Object.assign(new CreateUserCommand(), { email: 'own@b.c' })
+        );
+    });
+});
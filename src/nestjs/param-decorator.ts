@@ -1,30 +1,100 @@
-import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { createParamDecorator, ExecutionContext, PipeTransform, Type } from '@nestjs/common';
 import { Mapper } from '../core/mapper';
+import { isObject } from '../utils/type-check.util';
+import type { ClassType } from '../core/types';
+import { MapRequestPipe } from './pipe';
+import type { MapRequestData, MapRequestOptions } from './pipe';
+
+type PipeLike = Type<PipeTransform> | PipeTransform;
+
+/**
+ * Param decorator mapping the request data, or part of it, to a DTO. The application
+ * Mapper is resolved by `MapRequestPipe`; extra pipes (e.g. `ValidationPipe`) run on the mapped DTO.
+ */
+export type MapRequestDecorator = (
+    destinationClass: ClassType<any>,
+    optionsOrPipe?: MapRequestOptions | Mapper | PipeLike,
+    ...pipes: PipeLike[]
+) => ParameterDecorator;
+
+function isPipe(value: unknown): value is PipeLike {
+    if (typeof value === 'function') return typeof value.prototype?.transform === 'function';
+    return isObject(value) && typeof (value as PipeTransform).transform === 'function';
+}
+
+/**
+ * Payload of a handler on any transport: the request body over HTTP, the message data of
+ * microservice and WebSocket handlers, the arguments of a GraphQL resolver.
+ */
+function getPayload(ctx: ExecutionContext): unknown {
+    switch (ctx.getType<string>()) {
+        case 'rpc':
+            return ctx.switchToRpc().getData();
+        case 'ws':
+            return ctx.switchToWs().getData();
+        case 'graphql':
+            return ctx.getArgByIndex(1);
+        default:
+            return ctx.switchToHttp().getRequest().body;
+    }
+}
+
+function fromRequest(part: 'body' | 'query' | 'params' | 'headers') {
+    return (ctx: ExecutionContext) => ctx.switchToHttp().getRequest()[part];
+}
+
+function createMapDecorator(extract: (ctx: ExecutionContext) => any): MapRequestDecorator {
+    const decorator = createParamDecorator((data: MapRequestData, ctx: ExecutionContext) => {
+        const value = extract(ctx);
+        const property = data.options.property;
+        return property && value ? value[property] : value;
+    });
+
+    return (destination, optionsOrPipe, ...pipes) => {
+        const data: MapRequestData = { destination, options: {} };
+        if (optionsOrPipe instanceof Mapper) {
+            data.mapper = optionsOrPipe;
+        } else if (isPipe(optionsOrPipe)) {
+            pipes.unshift(optionsOrPipe);
+        } else if (optionsOrPipe) {
+            data.options = optionsOrPipe;
+        }
+        return decorator(data, MapRequestPipe, ...pipes);
+    };
+}
 
 /**
  * @MapBody
- * Maps the request body to the destination DTO using the provided Mapper.
+ * Maps the request body (or an array body) to the destination DTO.
  * @param destinationClass The class to map the body to
- * @param mapper Instance of Mapper (optional if you have global mapper)
  */
-export const MapBody = (destinationClass: new () => any, mapper?: Mapper) =>
-    createParamDecorator((_data: unknown, ctx: ExecutionContext) => {
-        const request = ctx.switchToHttp().getRequest();
-        const body = request.body;
-        if (!body) return body;
-        return mapper ? mapper.map(body, destinationClass) : body;
-    })();
+export const MapBody = createMapDecorator(fromRequest('body'));
 
 /**
  * @MapQuery
- * Maps query parameters to the destination DTO using the provided Mapper.
+ * Maps query parameters to the destination DTO.
  * @param destinationClass The class to map the query to
- * @param mapper Instance of Mapper (optional)
  */
-export const MapQuery = (destinationClass: new () => any, mapper?: Mapper) =>
-    createParamDecorator((_data: unknown, ctx: ExecutionContext) => {
-        const request = ctx.switchToHttp().getRequest();
-        const query = request.query;
-        if (!query) return query;
-        return mapper ? mapper.map(query, destinationClass) : query;
-    })();
+export const MapQuery = createMapDecorator(fromRequest('query'));
+
+/**
+ * @MapParam
+ * Maps route parameters to the destination DTO.
+ * @param destinationClass The class to map the params to
+ */
+export const MapParam = createMapDecorator(fromRequest('params'));
+
+/**
+ * @MapHeaders
+ * Maps request headers (lower-cased names) to the destination DTO.
+ * @param destinationClass The class to map the headers to
+ */
+export const MapHeaders = createMapDecorator(fromRequest('headers'));
+
+/**
+ * @MapPayload
+ * Maps the handler payload to the destination DTO on any transport: `@MessagePattern`/
+ * `@EventPattern` data, `@SubscribeMessage` data, GraphQL resolver args or the HTTP body.
+ * @param destinationClass The class to map the payload to
+ */
+export const MapPayload = createMapDecorator(getPayload);
@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import { BadRequestException } from '@nestjs/common';
+import type { ArgumentMetadata } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { AutomapperModule } from './automapper.module';
+import { MapRequestPipe } from './pipe';
+import type { MapRequestData, MapRequestOptions } from './pipe';
+import { Mapper } from '../core/mapper';
+
+class CreateUserCommand {
+    email = '';
+}
+
+function createMetadata(options: MapRequestOptions = {}): ArgumentMetadata {
+    const data: MapRequestData = { destination: CreateUserCommand, options };
+    return { type: 'body', data: data as unknown as string };
+}
+
+describe('MapRequestPipe', () => {
+    let mapper: Mapper;
+    let pipe: MapRequestPipe;
+
+    beforeEach(async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [AutomapperModule.forRoot()]
+        }).compile();
+
+        mapper = moduleRef.get(Mapper);
+        pipe = new MapRequestPipe(moduleRef.get(ModuleRef), mapper);
+    });
+
+    it('awaits members returning promises', async () => {
+        mapper.createMap('CreateUserBody', CreateUserCommand, {
+            email: (body: any) => Promise.resolve(body.email.toLowerCase())
+        });
+
+        const options = { sourceType: 'CreateUserBody' };
+        await expect(pipe.transform({ email: 'A@B.C' }, createMetadata(options))).resolves.toEqual(
+            Object.assign(new CreateUserCommand(), { email: 'a@b.c' })
+        );
+        await expect(
+            pipe.transform([{ email: 'D@E.F' }], createMetadata(options))
+        ).resolves.toEqual([Object.assign(new CreateUserCommand(), { email: 'd@e.f' })]);
+    });
+
+    it('maps every item of arrays holding null or undefined items', async () => {
+        mapper.createMap('CreateUserBody', CreateUserCommand);
+
+        const body = [null, { email: 'a@b.c', admin: true }, undefined];
+        const result = await pipe.transform(body, createMetadata({ sourceType: 'CreateUserBody' }));
+        expect(result).toEqual([
+            null,
+            Object.assign(new CreateUserCommand(), { email: 'a@b.c' }),
+            undefined
+        ]);
+        expect(result[1]).toBeInstanceOf(CreateUserCommand);
+    });
+
+    it('rejects request data without a map as a bad request', async () => {
+        await expect(pipe.transform({ email: 'a@b.c' }, createMetadata())).rejects.toThrow(
+            BadRequestException
+        );
+    });
+});
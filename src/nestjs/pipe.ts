@@ -1,5 +1,15 @@
-import { PipeTransform, Injectable, ArgumentMetadata } from '@nestjs/common';
+import {
+    PipeTransform,
+    Injectable,
+    ArgumentMetadata,
+    BadRequestException,
+    Optional
+} from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import { Mapper } from '../core/mapper';
+import { MappingConfigurationError, MappingNotFoundError } from '../core/errors';
+import type { ClassType, MapOptions } from '../core/types';
+import { getMapperToken } from './automapper.constants';
 
 @Injectable()
 export class AutoMapPipe implements PipeTransform {
@@ -14,3 +24,66 @@ export class AutoMapPipe implements PipeTransform {
         return this.mapper.map(value, this.destination);
     }
 }
+
+export interface MapRequestOptions extends Omit<MapOptions, 'context'> {
+    /** Map a single member of the request part, e.g. `{ property: 'user' }` of the body */
+    property?: string;
+    /** Name of the mapper to use (`forRoot({ name })`); the unnamed mapper by default */
+    mapper?: string;
+}
+
+/** Param data of the `MapBody`/`MapQuery`/`MapParam`/`MapHeaders` decorators. */
+export interface MapRequestData {
+    destination: ClassType<any>;
+    options: MapRequestOptions;
+    /** Mapper given at decoration time instead of the injected one */
+    mapper?: Mapper;
+}
+
+/**
+ * Companion pipe of the request param decorators: maps the extracted value with the
+ * application Mapper. A missing map is reported to the client as `400 Bad Request`.
+ */
+@Injectable()
+export class MapRequestPipe implements PipeTransform {
+    constructor(
+        private moduleRef: ModuleRef,
+        @Optional() private mapper?: Mapper
+    ) {}
+
+    async transform(value: any, metadata: ArgumentMetadata): Promise<any> {
+        const data = metadata.data as unknown as MapRequestData;
+        const { destination, options } = data;
+        const mapper = data.mapper ?? this.getMapper(options.mapper);
+        if (!mapper) {
+            throw new MappingConfigurationError(
+                `No Mapper available to map ${destination.name}; import AutomapperModule`
+            );
+        }
+        if (!value || typeof value !== 'object') return value;
+
+        const mapOptions = { ...options };
+        delete mapOptions.property;
+        delete mapOptions.mapper;
+        // Pipes run asynchronously anyway; mapAsync also awaits members that return promises
+        try {
+            return Array.isArray(value)
+                ? await mapper.mapArrayAsync(value, destination, mapOptions)
+                : await mapper.mapAsync(value, destination, mapOptions);
+        } catch (error) {
+            if (error instanceof MappingNotFoundError) {
+                throw new BadRequestException(error.message);
+            }
+            throw error;
+        }
+    }
+
+    private getMapper(name?: string): Mapper | undefined {
+        if (!name) return this.mapper;
+        try {
+            return this.moduleRef.get<Mapper>(getMapperToken(name), { strict: false });
+        } catch {
+            throw new MappingConfigurationError(`No mapper named "${name}" is registered`);
+        }
+    }
+}
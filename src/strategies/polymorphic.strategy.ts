@@ -6,18 +6,19 @@ export class PolymorphicMappingStrategy {
     mapPolymorphic<S extends object, D extends object>(
         source: S,
         destinationClass: new () => D,
-        typeDiscriminator: (src: S) => new () => D
+        typeDiscriminator?: (src: S) => new () => D
     ): D {
-        const actualClass = typeDiscriminator(source) || destinationClass;
+        // Without a discriminator, dispatch is left to the polymorphic map registration
+        const actualClass = typeDiscriminator?.(source) || destinationClass;
         return this.mapper.map(source, actualClass);
     }
 
     async mapPolymorphicAsync<S extends object, D extends object>(
         source: S,
         destinationClass: new () => D,
-        typeDiscriminator: (src: S) => new () => D
+        typeDiscriminator?: (src: S) => new () => D
     ): Promise<D> {
-        const actualClass = typeDiscriminator(source) || destinationClass;
+        const actualClass = typeDiscriminator?.(source) || destinationClass;
         return this.mapper.mapAsync(source, actualClass);
     }
 }
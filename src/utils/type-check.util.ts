@@ -6,6 +6,22 @@ export function isArray(value: any): value is any[] {
     return Array.isArray(value);
 }
 
+/** Display name of a class, or of a string/symbol source token. */
+export function getTypeName(type: unknown): string {
+    if (typeof type === 'function') return type.name;
+    if (typeof type === 'symbol') return type.description ?? type.toString();
+    return String(type);
+}
+
+/** True for promises and other objects with a `then` method. */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+    return (
+        (typeof value === 'object' || typeof value === 'function') &&
+        value !== null &&
+        typeof (value as PromiseLike<unknown>).then === 'function'
+    );
+}
+
 export function isEnumValue<T extends object>(enumObj: T, value: any): boolean {
     return Object.values(enumObj).includes(value);
 }